@@ -0,0 +1,42 @@
+import { bench, group, run, summary } from 'mitata'
+import { parseArgs as parseArgsNode } from 'node:util'
+import { parseArgs, tokenize } from '../lib/index.js'
+
+// e.g. `xargs` passes thousands of file paths
+const sizes = [100, 1000, 10_000]
+
+for (const size of sizes) {
+  const args = [
+    '--verbose',
+    '-o',
+    'dist',
+    ...Array.from({ length: size }, (_, i) => `src/file-${i}.ts`)
+  ]
+
+  group(`${size} arguments`, () => {
+    summary(() => {
+      bench('util.parseArgs', () => {
+        parseArgsNode({
+          allowPositionals: true,
+          strict: false,
+          args,
+          tokens: true
+        })
+      })
+
+      bench('args-tokens parseArgs', () => {
+        parseArgs(args)
+      })
+
+      bench('args-tokens tokenize', () => {
+        let count = 0
+        for (const _token of tokenize(args)) {
+          count++
+        }
+        return count
+      })
+    })
+  })
+}
+
+await run()
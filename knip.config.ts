@@ -2,7 +2,7 @@ import type { KnipConfig } from 'knip'
 
 const config: KnipConfig = {
   entry: ['playground/bun/index.ts'],
-  ignore: ['playground/deno/**', 'bench/mitata.js', 'bench/positionals.js'],
+  ignore: ['playground/deno/**', 'bench/long-argv.js', 'bench/mitata.js', 'bench/positionals.js'],
   ignoreDependencies: [
     'lint-staged',
     'mitata',
@@ -1,14 +1,21 @@
 import { expectTypeOf, test } from 'vitest'
 import {
   args,
+  atLeastOne,
+  atMostOne,
   boolean,
+  count,
   choice,
   combinator,
   describe,
+  env,
+  exactlyOne,
   extend,
   float,
   hidden,
   integer,
+  keyValue,
+  list,
   map,
   merge,
   multiple,
@@ -17,11 +24,12 @@ import {
   required,
   short,
   string,
+  tuple,
   unrequired,
   withDefault
 } from './combinators.ts'
 
-import type { ArgValues, ExtractOptionValue } from './resolver.ts'
+import type { ArgGroup, ArgValues, ExtractOptionValue } from './resolver.ts'
 
 test('base combinator type inference', () => {
   // string() → string
@@ -38,6 +46,43 @@ test('base combinator type inference', () => {
 
   // boolean() → boolean
   expectTypeOf<ExtractOptionValue<ReturnType<typeof boolean>>>().toEqualTypeOf<boolean>()
+
+  // count() → number
+  expectTypeOf<ExtractOptionValue<ReturnType<typeof count>>>().toEqualTypeOf<number>()
+})
+
+test('keyValue type inference', () => {
+  // keyValue() → Record<string, string>
+  const define = keyValue()
+  expectTypeOf<ExtractOptionValue<typeof define>>().toEqualTypeOf<Record<string, string>>()
+
+  // keyValue({ value: integer() }) → Record<string, number>
+  const size = keyValue({ key: choice(['width', 'height'] as const), value: integer() })
+  expectTypeOf<ExtractOptionValue<typeof size>>().toEqualTypeOf<Record<string, number>>()
+
+  // modifiers keep the record type
+  const args = { define: required(short(keyValue({ value: float() }), 'D')) }
+  expectTypeOf<ArgValues<typeof args>>().toEqualTypeOf<{ define: Record<string, number> }>()
+})
+
+test('list type inference', () => {
+  // list(integer()) → number[]
+  const ports = list(integer())
+  expectTypeOf<ExtractOptionValue<typeof ports>>().toEqualTypeOf<number[]>()
+
+  // multiple(list(string())) → string[] (flattened)
+  const tags = multiple(list(string()))
+  expectTypeOf<ExtractOptionValue<typeof tags>>().toEqualTypeOf<string[]>()
+})
+
+test('tuple type inference', () => {
+  // tuple([integer(), string()]) → [number, string]
+  const pair = tuple([integer(), string()])
+  expectTypeOf<ExtractOptionValue<typeof pair>>().toEqualTypeOf<[number, string]>()
+
+  // multiple(tuple(...)) → array of tuples
+  const pairs = multiple(tuple([choice(['a', 'b'] as const), float()]))
+  expectTypeOf<ExtractOptionValue<typeof pairs>>().toEqualTypeOf<['a' | 'b', number][]>()
 })
 
 test('positional type inference', () => {
@@ -117,6 +162,14 @@ test('withDefault type inference', () => {
 
   const boolDef = withDefault(boolean(), false)
   expectTypeOf<ExtractOptionValue<typeof boolDef>>().toEqualTypeOf<boolean>()
+
+  // the default has the resolved type
+  const multiDef = withDefault(multiple(string()), ['latest'])
+  expectTypeOf<ExtractOptionValue<typeof multiDef>>().toEqualTypeOf<string[]>()
+  const factoryDef = withDefault(multiple(string()), values => [String(values.tag)])
+  expectTypeOf<ExtractOptionValue<typeof factoryDef>>().toEqualTypeOf<string[]>()
+  // @ts-expect-error -- a single value is not an array
+  withDefault(multiple(string()), 'latest')
 })
 
 test('multiple type inference', () => {
@@ -212,12 +265,32 @@ test('ArgValues with merge() infers required / default / optional correctly', ()
   expectTypeOf<Values['port']>().toEqualTypeOf<number>() // non-optional (has default)
 })
 
+test('group combinators accept only schema keys', () => {
+  const schema = args({ json: boolean(), yaml: boolean(), file: positional() })
+  expectTypeOf(exactlyOne<typeof schema>)
+    .parameter(1)
+    .toEqualTypeOf<readonly ('json' | 'yaml' | 'file')[]>()
+  expectTypeOf(atMostOne(schema, ['json', 'yaml'])).toEqualTypeOf<ArgGroup>()
+  // @ts-expect-error -- unknown key
+  atLeastOne(schema, ['json', 'toml'])
+})
+
 test('describe type inference', () => {
   const described = describe(string(), 'Your name')
   expectTypeOf<ExtractOptionValue<typeof described>>().toEqualTypeOf<string>()
   expectTypeOf(described.description).toEqualTypeOf<'Your name'>()
 })
 
+test('env type inference', () => {
+  const port = env(integer(), 'PORT')
+  expectTypeOf<ExtractOptionValue<typeof port>>().toEqualTypeOf<number>()
+  expectTypeOf(port.env).toExtend<'PORT'>()
+
+  // env does not make the value non-optional
+  type Values = ArgValues<{ port: typeof port }>
+  expectTypeOf<Values['port']>().toEqualTypeOf<number | undefined>()
+})
+
 test('hidden metadata type inference', () => {
   const hiddenString = string({ hidden: true })
   expectTypeOf<ExtractOptionValue<typeof hiddenString>>().toEqualTypeOf<string>()
@@ -1,13 +1,22 @@
 import { describe, expect, test } from 'vitest'
 import {
+  aliases,
   args,
+  atLeastOne,
+  atMostOne,
   boolean,
   choice,
   combinator,
+  count,
+  deprecated,
   describe as describeCombinator,
+  env,
+  exactlyOne,
   extend,
   float,
   integer,
+  keyValue,
+  list,
   map,
   merge,
   multiple,
@@ -16,11 +25,17 @@ import {
   required,
   short,
   string,
+  tuple,
   unrequired,
   withDefault
 } from './combinators.ts'
 import { parseArgs } from './parser.ts'
-import { ArgsValidationError, ArgsValidationErrorKeys, resolveArgs } from './resolver.ts'
+import {
+  ArgsValidationError,
+  ArgsValidationErrorKeys,
+  resolveArgs,
+  resolveArgsAsync
+} from './resolver.ts'
 
 import type { Args, ArgSchema } from './resolver.ts'
 
@@ -360,6 +375,53 @@ describe('boolean combinator', () => {
   })
 })
 
+describe('count combinator', () => {
+  test('basic', () => {
+    const argv = ['-vvv', '--verbose']
+    const tokens = parseArgs(argv)
+    const { values } = resolveArgs({ verbose: count({ short: 'v' }) }, tokens, {
+      shortGrouping: true
+    })
+    expect(values.verbose).toBe(4)
+  })
+
+  test('negatable', () => {
+    const argv = ['--verbose', '--no-verbose', '--verbose']
+    const tokens = parseArgs(argv)
+    const { values } = resolveArgs({ verbose: count({ negatable: true }) }, tokens)
+    expect(values.verbose).toBe(1)
+  })
+
+  test('schema properties', () => {
+    const schema = count({ short: 'v', description: 'Increase verbosity' })
+    expect(schema.type).toBe('count')
+    expect(schema.metavar).toBe('count')
+    expect(schema.short).toBe('v')
+    expect(schema.description).toBe('Increase verbosity')
+  })
+
+  test('with modifiers: withDefault', () => {
+    const tokens = parseArgs([])
+    const { values } = resolveArgs({ verbose: withDefault(count(), 0) }, tokens)
+    expect(values.verbose).toBe(0)
+  })
+
+  test('with modifiers: map', () => {
+    const argv = ['-v', '-v']
+    const tokens = parseArgs(argv)
+    const { values } = resolveArgs(
+      {
+        level: short(
+          map(count(), n => ['warn', 'info', 'debug'][Math.min(n, 2)]),
+          'v'
+        )
+      },
+      tokens
+    )
+    expect(values.level).toBe('debug')
+  })
+})
+
 describe('positional combinator', () => {
   test('basic (string)', () => {
     const argv = ['dev']
@@ -445,6 +507,316 @@ describe('choice combinator', () => {
       displayName: "'--level'"
     })
   })
+  test('invalid value with suggestions', () => {
+    const argv = ['--level', 'inof']
+    const tokens = parseArgs(argv)
+    const { error } = resolveArgs(
+      { level: choice(['debug', 'info', 'warn', 'error'] as const) },
+      tokens
+    )
+    expect((error!.errors[0] as Error).message).toBe(
+      "Value must be one of: debug, info, warn, error. Did you mean 'info'?"
+    )
+    expect((error!.errors[0] as ArgsValidationError).values).toMatchObject({
+      actual: 'inof',
+      suggestions: ['info']
+    })
+  })
+})
+
+describe('keyValue combinator', () => {
+  test('basic', () => {
+    const argv = ['-D', 'NAME=app', '-D', 'URL=http://localhost?a=b']
+    const tokens = parseArgs(argv)
+    const { values, error } = resolveArgs({ define: keyValue({ short: 'D' }) }, tokens)
+    expect(error).toBeUndefined()
+    expect(values.define).toEqual({ NAME: 'app', URL: 'http://localhost?a=b' })
+  })
+
+  test('nested key and value combinators', () => {
+    const argv = ['--size', 'width:80', '--size', 'height:24']
+    const tokens = parseArgs(argv)
+    const { values, error } = resolveArgs(
+      {
+        size: keyValue({
+          key: choice(['width', 'height'] as const),
+          value: integer({ min: 1 }),
+          separator: ':'
+        })
+      },
+      tokens
+    )
+    expect(error).toBeUndefined()
+    expect(values.size).toEqual({ width: 80, height: 24 })
+  })
+
+  test('nested combinator errors are collected', () => {
+    const argv = ['--size', 'depth:80', '--size', 'width:abc']
+    const tokens = parseArgs(argv)
+    const { error } = resolveArgs(
+      {
+        size: keyValue({
+          key: choice(['width', 'height'] as const),
+          value: integer(),
+          separator: ':'
+        })
+      },
+      tokens
+    )
+    expect(error!.errors.map((e: Error) => e.message)).toEqual([
+      'Value must be one of: width, height',
+      "Expected an integer, got 'abc'"
+    ])
+  })
+
+  test('missing separator', () => {
+    const argv = ['--define', 'NAME']
+    const tokens = parseArgs(argv)
+    const { error } = resolveArgs({ define: keyValue() }, tokens)
+    expect((error!.errors[0] as Error).message).toBe("Value must be in the form of 'key=value'")
+    expect((error!.errors[0] as ArgsValidationError).code).toBe(ArgsValidationErrorKeys.invalidType)
+    expect((error!.errors[0] as ArgsValidationError).values).toMatchObject({
+      expected: 'map',
+      actual: 'NAME'
+    })
+  })
+
+  test('duplicate keys', () => {
+    const argv = ['--define', 'A=1', '--define', 'A=2']
+    const tokens = parseArgs(argv)
+    expect(resolveArgs({ define: keyValue() }, tokens).values.define).toEqual({ A: '2' })
+    expect(
+      resolveArgs({ define: keyValue({ duplicateKeys: 'first' }) }, tokens).values.define
+    ).toEqual({ A: '1' })
+    const { error } = resolveArgs({ define: keyValue({ duplicateKeys: 'error' }) }, tokens)
+    expect((error!.errors[0] as ArgsValidationError).code).toBe(
+      ArgsValidationErrorKeys.duplicateKey
+    )
+  })
+
+  test('asynchronous value parser', async () => {
+    const port = combinator({
+      parse: async (value: string) => {
+        await Promise.resolve()
+        if (!/^\d+$/.test(value)) {
+          throw new Error(`Invalid port '${value}'`)
+        }
+        return Number(value)
+      }
+    })
+    const args = { port: keyValue({ value: port }) }
+
+    const resolved = await resolveArgsAsync(args, parseArgs(['--port', 'a=80', '--port', 'b=443']))
+    expect(resolved.error).toBeUndefined()
+    expect(resolved.values.port).toEqual({ a: 80, b: 443 })
+
+    const { values, error } = await resolveArgsAsync(
+      args,
+      parseArgs(['--port', 'a=80', '--port', 'b=http'])
+    )
+    expect(values.port).toBeUndefined()
+    expect(error!.errors.map((e: Error) => e.message)).toEqual(["Invalid port 'http'"])
+  })
+
+  test('schema properties', () => {
+    const schema = keyValue({ separator: ':', duplicateKeys: 'error', description: 'Headers' })
+    expect(schema.type).toBe('map')
+    expect(schema.metavar).toBe('key:value')
+    expect(schema.separator).toBe(':')
+    expect(schema.duplicateKeys).toBe('error')
+    expect(schema.description).toBe('Headers')
+  })
+})
+
+describe('list combinator', () => {
+  test('basic', () => {
+    const argv = ['--ports', '80,443']
+    const tokens = parseArgs(argv)
+    const { values, error } = resolveArgs({ ports: list(integer()) }, tokens)
+    expect(error).toBeUndefined()
+    expect(values.ports).toEqual([80, 443])
+  })
+
+  test('separator, trim and unique', () => {
+    const argv = ['--tags', ' a ; b;a ']
+    const tokens = parseArgs(argv)
+    const { values } = resolveArgs(
+      { tags: list(string(), { separator: ';', trim: true, unique: true }) },
+      tokens
+    )
+    expect(values.tags).toEqual(['a', 'b'])
+  })
+
+  test('empty value', () => {
+    const argv = ['--tags=']
+    const tokens = parseArgs(argv)
+    const { values } = resolveArgs({ tags: list(string()) }, tokens)
+    expect(values.tags).toEqual([])
+  })
+
+  test('min and max validation', () => {
+    const tokens = parseArgs(['--ports', '80,443,8080'])
+    const { error: minError } = resolveArgs({ ports: list(integer(), { min: 4 }) }, tokens)
+    expect((minError!.errors[0] as Error).message).toBe('List must have at least 4 items')
+    const { error: maxError } = resolveArgs({ ports: list(integer(), { max: 2 }) }, tokens)
+    expect((maxError!.errors[0] as Error).message).toBe('List must have at most 2 items')
+  })
+
+  test('item errors have the index', () => {
+    const argv = ['--ports', '80,http,443']
+    const tokens = parseArgs(argv)
+    const { error } = resolveArgs({ ports: list(integer()) }, tokens)
+    expect(error!.errors.length).toBe(1)
+    expect((error!.errors[0] as ArgsValidationError).code).toBe(ArgsValidationErrorKeys.invalidType)
+    expect((error!.errors[0] as ArgsValidationError).values).toMatchObject({
+      name: 'ports',
+      index: 1,
+      actual: 'http'
+    })
+  })
+
+  test('item errors from plain errors have the index', () => {
+    const argv = ['--names', 'a,']
+    const tokens = parseArgs(argv)
+    const { error } = resolveArgs({ names: list(string({ minLength: 1 })) }, tokens)
+    expect((error!.errors[0] as Error).message).toBe('String must be at least 1 characters')
+    expect((error!.errors[0] as ArgsValidationError).code).toBe(ArgsValidationErrorKeys.customParse)
+    expect((error!.errors[0] as ArgsValidationError).values).toMatchObject({
+      name: 'names',
+      index: 1,
+      actual: ''
+    })
+  })
+
+  test('with modifier: multiple flattens items', () => {
+    const argv = ['--tags', 'a,b', '--tags', 'c']
+    const tokens = parseArgs(argv)
+    const { values } = resolveArgs({ tags: multiple(list(string())) }, tokens)
+    expect(values.tags).toEqual(['a', 'b', 'c'])
+  })
+
+  test('with modifier: multiple flattens environment and configuration values', () => {
+    const args = { tags: env(multiple(list(string())), 'TAGS') }
+    const tokens = parseArgs([])
+    expect(resolveArgs(args, tokens, { env: { TAGS: 'a,b' } }).values.tags).toEqual(['a', 'b'])
+    expect(
+      resolveArgs(args, tokens, { config: [{ name: 'app.json', values: { tags: ['a,b', 'c'] } }] })
+        .values.tags
+    ).toEqual(['a', 'b', 'c'])
+  })
+
+  test('schema properties', () => {
+    const schema = list(integer(), { separator: ':', description: 'Ports' })
+    expect(schema.type).toBe('custom')
+    expect(schema.metavar).toBe('integer:...')
+    expect(schema.separator).toBe(':')
+    expect(schema.description).toBe('Ports')
+  })
+})
+
+describe('tuple combinator', () => {
+  test('basic', () => {
+    const argv = ['--size', '80', '24', 'file.txt']
+    const tokens = parseArgs(argv)
+    const { values, positionals, error } = resolveArgs(
+      { size: tuple([integer(), integer()]) },
+      tokens
+    )
+    expect(error).toBeUndefined()
+    expect(values.size).toEqual([80, 24])
+    expect(positionals).toEqual(['file.txt'])
+  })
+
+  test('each element is parsed by its own schema', () => {
+    const argv = ['--env', 'PORT', '8080', '--env', 'HOST', 'localhost']
+    const tokens = parseArgs(argv)
+    const { values, error } = resolveArgs({ env: multiple(tuple([string(), string()])) }, tokens)
+    expect(error).toBeUndefined()
+    expect(values.env).toEqual([
+      ['PORT', '8080'],
+      ['HOST', 'localhost']
+    ])
+  })
+
+  test('element errors are collected', () => {
+    const argv = ['--level', 'trace', 'x']
+    const tokens = parseArgs(argv)
+    const { error } = resolveArgs(
+      { level: tuple([choice(['debug', 'info'] as const), integer()]) },
+      tokens
+    )
+    expect(error!.errors.map((e: Error) => e.message)).toEqual([
+      'Value must be one of: debug, info',
+      "Expected an integer, got 'x'"
+    ])
+  })
+
+  test('missing elements', () => {
+    const argv = ['--size', '80', '--verbose']
+    const tokens = parseArgs(argv)
+    const { error } = resolveArgs(
+      { size: tuple([integer(), integer()]), verbose: boolean() },
+      tokens
+    )
+    expect(error!.errors.length).toBe(1)
+    expect((error!.errors[0] as Error).message).toBe(
+      "Optional argument '--size' requires 2 values, but got 1"
+    )
+    expect((error!.errors[0] as ArgsValidationError).code).toBe(
+      ArgsValidationErrorKeys.requiredValues
+    )
+    expect((error!.errors[0] as ArgsValidationError).values).toMatchObject({ min: 2, max: 2 })
+  })
+
+  test('with modifier: multiple and asynchronous element parser', async () => {
+    const upper = combinator({ parse: (value: string) => Promise.resolve(value.toUpperCase()) })
+    const argv = ['--env', 'port', '8080', '--env', 'host', 'x', '--env', 'user', '1']
+    const { values, error } = await resolveArgsAsync(
+      { env: multiple(tuple([upper, integer()])) },
+      parseArgs(argv)
+    )
+    expect(values.env).toEqual([
+      ['PORT', 8080],
+      ['USER', 1]
+    ])
+    expect(error!.errors.map((e: Error) => e.message)).toEqual(["Expected an integer, got 'x'"])
+  })
+
+  test('asynchronous element rejections are collected with element errors', async () => {
+    const name = combinator({
+      parse: (value: string) =>
+        value === 'bad'
+          ? Promise.reject(new Error(`Invalid name '${value}'`))
+          : Promise.resolve(value)
+    })
+    const { values, error } = await resolveArgsAsync(
+      { pair: tuple([name, integer()]) },
+      parseArgs(['--pair', 'bad', 'x'])
+    )
+    expect(values.pair).toBeUndefined()
+    expect(error!.errors.map((e: Error) => e.message)).toEqual([
+      "Expected an integer, got 'x'",
+      "Invalid name 'bad'"
+    ])
+  })
+
+  test('single values are split with the separator', () => {
+    const args = { size: env(tuple([integer(), integer()], { separator: 'x' }), 'SIZE') }
+    expect(resolveArgs(args, parseArgs(['--size=80x24'])).values.size).toEqual([80, 24])
+    expect(resolveArgs(args, parseArgs([]), { env: { SIZE: '120x40' } }).values.size).toEqual([
+      120, 40
+    ])
+    const { error } = resolveArgs(args, parseArgs(['--size=80']))
+    expect((error!.errors[0] as Error).message).toBe("Expected 2 values separated by 'x', got '80'")
+  })
+
+  test('schema properties', () => {
+    const schema = tuple([integer(), string()], { description: 'Pair' })
+    expect(schema.type).toBe('custom')
+    expect(schema.metavar).toBe('integer string')
+    expect(schema.items).toHaveLength(2)
+    expect(schema.description).toBe('Pair')
+  })
 })
 
 describe('custom combinator', () => {
@@ -618,6 +990,24 @@ describe('withDefault combinator', () => {
     expect(values.port).toBe(8080)
   })
 
+  test('applies non-primitive default', () => {
+    const tokens = parseArgs([])
+    const { values } = resolveArgs({ tags: withDefault(multiple(string()), ['latest']) }, tokens)
+    expect(values.tags).toEqual(['latest'])
+  })
+
+  test('applies default factory', () => {
+    const tokens = parseArgs(['--input', 'main.ts'])
+    const { values } = resolveArgs(
+      {
+        out: withDefault(string(), values => `${values.input as string}.js`),
+        input: string()
+      },
+      tokens
+    )
+    expect(values.out).toBe('main.ts.js')
+  })
+
   test('immutability', () => {
     const base = integer()
     const withDef = withDefault(base, 42)
@@ -682,6 +1072,64 @@ describe('short combinator', () => {
   })
 })
 
+describe('aliases combinator', () => {
+  test('basic', () => {
+    const base = short(string(), 'o')
+    const schema = aliases(base, ['out', 'O'])
+    expect(schema.aliases).toEqual(['out', 'O'])
+    expect(schema.short).toBe('o')
+    expect((base as ArgSchema).aliases).toBeUndefined()
+
+    const tokens = parseArgs(['-O', 'dist'])
+    const { values } = resolveArgs({ output: schema }, tokens)
+    expect(values.output).toBe('dist')
+  })
+})
+
+describe('env combinator', () => {
+  test('resolves value from environment variable', () => {
+    const tokens = parseArgs([])
+    const { values, fromEnv } = resolveArgs({ port: env(integer(), 'PORT') }, tokens, {
+      env: { PORT: '3000' }
+    })
+    expect(values.port).toBe(3000)
+    expect(fromEnv).toEqual({ port: 'PORT' })
+  })
+
+  test('validates value with combinator parse', () => {
+    const tokens = parseArgs([])
+    const { error } = resolveArgs({ port: env(integer({ max: 1024 }), 'PORT') }, tokens, {
+      env: { PORT: '3000' }
+    })
+    expect((error?.errors[0] as ArgsValidationError).code).toBe(ArgsValidationErrorKeys.customParse)
+    expect((error?.errors[0] as ArgsValidationError).values).toMatchObject({
+      name: 'port',
+      env: 'PORT'
+    })
+  })
+
+  test('immutability', () => {
+    const base = string()
+    const withEnv = env(base, ['APP_TOKEN', 'TOKEN'])
+    expect((base as ArgSchema).env).toBeUndefined()
+    expect(withEnv.env).toEqual(['APP_TOKEN', 'TOKEN'])
+  })
+})
+
+describe('deprecated combinator', () => {
+  test('marks schema as deprecated', () => {
+    const base = string()
+    const schema = deprecated(base, { since: '2.0.0', replacement: 'theme' })
+    expect(schema.deprecated).toEqual({ since: '2.0.0', replacement: 'theme' })
+    expect((base as ArgSchema).deprecated).toBeUndefined()
+
+    const tokens = parseArgs(['--color', 'red'])
+    const { values, warnings } = resolveArgs({ color: schema, theme: string() }, tokens)
+    expect(values.color).toBe('red')
+    expect(warnings[0].code).toBe(ArgsValidationErrorKeys.deprecatedOption)
+  })
+})
+
 describe('combinator', () => {
   test('sets description', () => {
     const schema = describeCombinator(string(), 'Your name')
@@ -922,6 +1370,53 @@ describe('schema combinators', () => {
     })
   })
 
+  describe('group combinators', () => {
+    const schema = args({
+      json: boolean(),
+      yaml: boolean(),
+      file: unrequired(positional()),
+      stdin: boolean()
+    })
+
+    test('atMostOne()', () => {
+      const group = atMostOne(schema, ['json', 'yaml'])
+      expect(group).toEqual({ type: 'at-most-one', keys: ['json', 'yaml'] })
+
+      const tokens = parseArgs(['--json', '--yaml'])
+      const { error } = resolveArgs(schema, tokens, { groups: [group] })
+      expect((error?.errors[0] as ArgsValidationError).code).toBe(
+        ArgsValidationErrorKeys.groupConflict
+      )
+    })
+
+    test('atLeastOne()', () => {
+      const group = atLeastOne(schema, ['file', 'stdin'])
+      expect(group).toEqual({ type: 'at-least-one', keys: ['file', 'stdin'] })
+
+      const { error } = resolveArgs(schema, parseArgs([]), { groups: [group] })
+      expect((error?.errors[0] as ArgsValidationError).code).toBe(
+        ArgsValidationErrorKeys.groupRequired
+      )
+      expect(
+        resolveArgs(schema, parseArgs(['input.txt']), { groups: [group] }).error
+      ).toBeUndefined()
+    })
+
+    test('exactlyOne()', () => {
+      const group = exactlyOne(schema, ['json', 'yaml'])
+      expect(group).toEqual({ type: 'exactly-one', keys: ['json', 'yaml'] })
+
+      const { error } = resolveArgs(schema, parseArgs(['--yaml']), { groups: [group] })
+      expect(error).toBeUndefined()
+    })
+
+    test('throws for keys not defined in the schema', () => {
+      expect(() => atMostOne(schema as Args, ['json', 'toml'])).toThrow(
+        new TypeError("argument 'toml' is not defined in the schema")
+      )
+    })
+  })
+
   describe('integration', () => {
     test('merge + extend composition', () => {
       const common = args({ verbose: boolean(), help: short(boolean(), 'h') })
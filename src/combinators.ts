@@ -9,6 +9,7 @@
  *   string,
  *   integer,
  *   boolean,
+ *   count,
  *   positional,
  *   choice,
  *   withDefault,
@@ -55,10 +56,18 @@
  * @license MIT
  */
 
-import { ArgsValidationError, ArgsValidationErrorKeys } from './resolver.ts'
-import { formatChoices } from './utils.ts'
+import { ArgsValidationError, ArgsValidationErrorKeys, isArgsValidationError } from './resolver.ts'
+import { findSuggestions, formatChoices, formatSuggestions } from './utils.ts'
 
-import type { Args, ArgSchema } from './resolver.ts'
+import type {
+  ArgDeprecation,
+  ArgGroup,
+  ArgListValue,
+  ArgMapEntry,
+  Args,
+  ArgSchema,
+  ExtractOptionValue
+} from './resolver.ts'
 
 /**
  * A combinator produced by combinator factory functions.
@@ -106,15 +115,20 @@ function createInvalidChoiceError(
   choices: readonly string[],
   actual: string
 ): ArgsValidationError {
-  return new ArgsValidationError(message, {
-    code: ArgsValidationErrorKeys.invalidChoice,
-    values: {
-      expected: 'enum',
-      choices: formatChoices(choices),
-      choiceValues: [...choices],
-      actual
+  const suggestions = findSuggestions(actual, choices)
+  return new ArgsValidationError(
+    suggestions.length > 0 ? `${message}. ${formatSuggestions(suggestions)}` : message,
+    {
+      code: ArgsValidationErrorKeys.invalidChoice,
+      values: {
+        expected: 'enum',
+        choices: formatChoices(choices),
+        choiceValues: [...choices],
+        actual,
+        ...(suggestions.length > 0 ? { suggestions } : {})
+      }
     }
-  })
+  )
 }
 
 // ------------------------------------------------------------------------------------------------
@@ -432,6 +446,53 @@ export function boolean(opts?: BooleanOptions): CombinatorSchema<boolean> {
   }
 }
 
+/**
+ * Options for the {@link count} combinator.
+ *
+ * @experimental
+ */
+export interface CountOptions extends BaseOptions {
+  /**
+   * Enable reset with `--no-` prefix.
+   */
+  negatable?: boolean
+}
+
+/**
+ * Create a counting flag argument schema.
+ *
+ * Count arguments are existence-based like boolean arguments. Each occurrence increments the count,
+ * and the resolver passes the number of occurrences to the parse function.
+ *
+ * @param opts - Count options.
+ * @returns A combinator schema for counting flags.
+ *
+ * @example
+ * ```ts
+ * const args = {
+ *   verbose: count({ short: 'v', negatable: true })
+ * }
+ * // Usage: -v (1), -vvv (3, with short grouping), --verbose --verbose (2), --no-verbose (0)
+ * ```
+ *
+ * @experimental
+ */
+// @__NO_SIDE_EFFECTS__
+export function count(opts?: CountOptions): CombinatorSchema<number> {
+  return {
+    type: 'count',
+    ...(opts?.negatable != null ? { negatable: opts.negatable } : {}),
+    metavar: 'count',
+    ...(opts?.description != null ? { description: opts.description } : {}),
+    ...(opts?.hidden != null ? { hidden: opts.hidden } : {}),
+    ...(opts?.short != null ? { short: opts.short } : {}),
+    ...(opts?.required != null ? { required: opts.required } : {}),
+    parse(value: string): number {
+      return Number(value)
+    }
+  }
+}
+
 /**
  * Positional argument schema type.
  */
@@ -552,6 +613,302 @@ export function choice<const T extends readonly string[]>(
   }
 }
 
+/**
+ * Options for the {@link keyValue} combinator.
+ *
+ * @typeParam K - The parsed key type.
+ * @typeParam V - The parsed value type.
+ *
+ * @experimental
+ */
+export interface KeyValueOptions<K extends string, V> extends BaseOptions {
+  /**
+   * Combinator schema to parse each key.
+   */
+  key?: CombinatorSchema<K>
+  /**
+   * Combinator schema to parse each value.
+   */
+  value?: CombinatorSchema<V>
+  /**
+   * Separator between the key and the value.
+   *
+   * @default '='
+   */
+  separator?: string
+  /**
+   * How repeated keys are handled.
+   *
+   * @default 'last'
+   */
+  duplicateKeys?: 'last' | 'first' | 'error'
+}
+
+/**
+ * Key-value argument schema type.
+ */
+type ArgSchemaMapType = { type: 'map' }
+
+/**
+ * Create a key-value argument schema.
+ *
+ * Each occurrence is split at the first separator, and the key and value are parsed with the
+ * nested combinators. All occurrences are collected into a record.
+ *
+ * The returned schema has `type: 'map'`.
+ *
+ * @typeParam K - The parsed key type.
+ * @typeParam V - The parsed value type.
+ *
+ * @param opts - Key-value options.
+ * @returns A combinator schema that resolves to `Record<string, V>`.
+ *
+ * @example
+ * ```ts
+ * const args = {
+ *   define: keyValue({ short: 'D', value: integer() })
+ * }
+ * // Usage: -D WIDTH=80 -D HEIGHT=24
+ * // typeof values.define === Record<string, number>
+ * ```
+ *
+ * @experimental
+ */
+// @__NO_SIDE_EFFECTS__
+export function keyValue<V = string, K extends string = string>(
+  opts?: KeyValueOptions<K, V>
+): CombinatorSchema<ArgMapEntry<K, V>> & ArgSchemaMapType {
+  const separator = opts?.separator ?? '='
+  const keyParse = opts?.key?.parse
+  const valueParse = opts?.value?.parse
+  return {
+    type: 'map',
+    metavar: `key${separator}value`,
+    separator,
+    ...(opts?.duplicateKeys != null ? { duplicateKeys: opts.duplicateKeys } : {}),
+    ...(opts?.description != null ? { description: opts.description } : {}),
+    ...(opts?.hidden != null ? { hidden: opts.hidden } : {}),
+    ...(opts?.short != null ? { short: opts.short } : {}),
+    ...(opts?.required != null ? { required: opts.required } : {}),
+    parse(value: string): ArgMapEntry<K, V> {
+      const index = value.indexOf(separator)
+      if (index <= 0) {
+        throw createInvalidTypeError(
+          `Value must be in the form of 'key${separator}value'`,
+          'map',
+          value
+        )
+      }
+      const rawKey = value.slice(0, index)
+      const rawValue = value.slice(index + separator.length)
+      return [
+        keyParse ? keyParse(rawKey) : (rawKey as K),
+        valueParse ? valueParse(rawValue) : (rawValue as V)
+      ] as unknown as ArgMapEntry<K, V>
+    }
+  }
+}
+
+/**
+ * Options for the {@link list} combinator.
+ *
+ * @experimental
+ */
+export interface ListOptions extends BaseOptions {
+  /**
+   * Separator between the items.
+   *
+   * @default ','
+   */
+  separator?: string
+  /**
+   * Trim whitespace around each item before parsing.
+   *
+   * @default false
+   */
+  trim?: boolean
+  /**
+   * Drop duplicated items after parsing.
+   *
+   * @default false
+   */
+  unique?: boolean
+  /**
+   * Minimum number of items.
+   */
+  min?: number
+  /**
+   * Maximum number of items.
+   */
+  max?: number
+}
+
+/**
+ * Create a list argument schema that splits one value into items.
+ *
+ * The returned schema has `type: 'custom'`. Each item is parsed with the item schema. When an item fails to parse, the index of the item
+ * is attached to the error as `values.index`. An empty value resolves to an empty list.
+ *
+ * Combined with {@link multiple}, the items of all occurrences are flattened into one array.
+ *
+ * @typeParam T - The item type.
+ *
+ * @param schema - The item combinator schema.
+ * @param opts - List options.
+ * @returns A combinator schema that resolves to an array of items.
+ *
+ * @example
+ * ```ts
+ * const args = {
+ *   ports: list(integer(), { min: 1 }),
+ *   tags: multiple(list(string(), { trim: true, unique: true }))
+ * }
+ * // Usage: --ports 80,443 --tags a,b --tags c
+ * // typeof values.ports === number[]
+ * // typeof values.tags === string[]
+ * ```
+ *
+ * @experimental
+ */
+// @__NO_SIDE_EFFECTS__
+export function list<T>(
+  schema: CombinatorSchema<T>,
+  opts?: ListOptions
+): CombinatorSchema<ArgListValue<T>> {
+  const separator = opts?.separator ?? ','
+  const itemParse: (value: string) => T = schema.parse
+  return {
+    type: 'custom',
+    metavar: `${schema.metavar ?? schema.type}${separator}...`,
+    separator,
+    ...(opts?.description != null ? { description: opts.description } : {}),
+    ...(opts?.hidden != null ? { hidden: opts.hidden } : {}),
+    ...(opts?.short != null ? { short: opts.short } : {}),
+    ...(opts?.required != null ? { required: opts.required } : {}),
+    parse(value: string): ArgListValue<T> {
+      const items: T[] = []
+      const rawItems = value === '' ? [] : value.split(separator)
+      for (const [index, rawItem] of rawItems.entries()) {
+        const item = parseListItem(itemParse, opts?.trim ? rawItem.trim() : rawItem, index)
+        if (!opts?.unique || !items.includes(item)) {
+          items.push(item)
+        }
+      }
+      if (opts?.min != null && items.length < opts.min) {
+        throw new RangeError(`List must have at least ${opts.min} items`)
+      }
+      if (opts?.max != null && items.length > opts.max) {
+        throw new RangeError(`List must have at most ${opts.max} items`)
+      }
+      return items as ArgListValue<T>
+    }
+  }
+}
+
+function parseListItem<T>(parse: (value: string) => T, value: string, index: number): T {
+  try {
+    return parse(value)
+  } catch (error) {
+    if (isArgsValidationError(error)) {
+      error.values.index = index
+      error.values.actual ??= value
+      throw error
+    }
+    const reason = error instanceof Error ? error.message : String(error)
+    throw new ArgsValidationError(reason, {
+      code: ArgsValidationErrorKeys.customParse,
+      values: {
+        reason,
+        index,
+        actual: value
+      },
+      cause: error
+    })
+  }
+}
+
+/**
+ * Options for the {@link tuple} combinator.
+ *
+ * @experimental
+ */
+export interface TupleOptions extends BaseOptions {
+  /**
+   * Separator between the elements of a single value, such as values from environment variables
+   * and configuration layers.
+   *
+   * @default ','
+   */
+  separator?: string
+}
+
+/**
+ * Tuple type parsed by the element combinator schemas.
+ */
+type TupleValue<T extends readonly CombinatorSchema<unknown>[]> = {
+  -readonly [K in keyof T]: T[K] extends Combinator<infer U> ? U : never
+}
+
+/**
+ * Create a fixed-arity argument schema.
+ *
+ * One occurrence of the option consumes exactly as many values as the element schemas,
+ * and each value is parsed by the schema at the same position. A single value, such as
+ * `--size=80,24` or values from environment variables and configuration layers, is split with the separator.
+ *
+ * Combined with {@link multiple}, the option resolves to an array of tuples.
+ *
+ * The returned schema has `type: 'custom'`.
+ *
+ * @typeParam T - The element combinator schemas.
+ *
+ * @param schemas - The element combinator schemas.
+ * @param opts - Tuple options.
+ * @returns A combinator schema that resolves to a typed tuple.
+ *
+ * @example
+ * ```ts
+ * const args = {
+ *   size: tuple([integer(), integer()]),
+ *   env: multiple(tuple([string(), string()]))
+ * }
+ * // Usage: --size 80 24 --env NAME app --env PORT 8080
+ * // typeof values.size === [number, number]
+ * // typeof values.env === [string, string][]
+ * ```
+ *
+ * @experimental
+ */
+// @__NO_SIDE_EFFECTS__
+export function tuple<const T extends readonly CombinatorSchema<unknown>[]>(
+  schemas: T,
+  opts?: TupleOptions
+): CombinatorSchema<TupleValue<T>> {
+  const separator = opts?.separator ?? ','
+  return {
+    type: 'custom',
+    metavar: schemas.map(schema => schema.metavar ?? schema.type).join(' '),
+    items: [...schemas],
+    ...(opts?.description != null ? { description: opts.description } : {}),
+    ...(opts?.hidden != null ? { hidden: opts.hidden } : {}),
+    ...(opts?.short != null ? { short: opts.short } : {}),
+    ...(opts?.required != null ? { required: opts.required } : {}),
+    parse(value: string): TupleValue<T> {
+      const elements = value.split(separator)
+      if (elements.length !== schemas.length) {
+        throw createInvalidTypeError(
+          `Expected ${schemas.length} values separated by '${separator}', got '${value}'`,
+          'tuple',
+          value
+        )
+      }
+      return elements.map((element, index): unknown =>
+        schemas[index].parse(element)
+      ) as TupleValue<T>
+    }
+  }
+}
+
 // ------------------------------------------------------------------------------------------------
 // Custom Combinators
 // ------------------------------------------------------------------------------------------------
@@ -665,33 +1022,39 @@ export function map<T, U>(
 /**
  * Options for the {@link withDefault} combinator.
  */
-type CombinatorWithDefault<T> = { default: T }
+type CombinatorWithDefault<T> = { default: T | ((values: Record<string, unknown>) => T) }
 
 /**
  * Set a default value on a combinator schema.
  *
+ * The default value has the resolved type of the schema, e.g. an array for {@link multiple} schemas.
+ * A function is a default factory, which is called with the resolved values of the other arguments.
+ *
  * The original schema is not modified.
  *
- * @typeParam T - The schema's parsed type.
+ * @typeParam S - The base combinator schema type.
  *
  * @param schema - The base combinator schema.
- * @param defaultValue - The default value.
+ * @param defaultValue - The default value, or the default factory.
  * @returns A new schema with the default value set.
  *
  * @example
  * ```ts
  * const args = {
- *   port: withDefault(integer({ min: 1, max: 65535 }), 8080)
+ *   input: required(string()),
+ *   port: withDefault(integer({ min: 1, max: 65535 }), 8080),
+ *   tags: withDefault(multiple(string()), ['latest']),
+ *   out: withDefault(string(), values => `${values.input}.js`)
  * }
  * ```
  *
  * @experimental
  */
 // @__NO_SIDE_EFFECTS__
-export function withDefault<T extends string | boolean | number>(
-  schema: CombinatorSchema<T>,
-  defaultValue: T
-): CombinatorSchema<T> & CombinatorWithDefault<T> {
+export function withDefault<S extends CombinatorSchema<unknown>>(
+  schema: S,
+  defaultValue: CombinatorWithDefault<ExtractOptionValue<S>>['default']
+): S & CombinatorWithDefault<ExtractOptionValue<S>> {
   return {
     ...schema,
     default: defaultValue
@@ -800,6 +1163,82 @@ export function short<T, S extends string>(
   }
 }
 
+/**
+ * Options for the {@link aliases} combinator.
+ */
+type CombinatorAliases = { aliases: string[] }
+
+/**
+ * Set additional names on a combinator schema.
+ *
+ * The original schema is not modified.
+ * Single character names are short aliases, and other names are long aliases.
+ *
+ * @typeParam T - The schema's parsed type.
+ *
+ * @param schema - The base combinator schema.
+ * @param names - Additional long names and short characters.
+ * @returns A new schema with the aliases set.
+ *
+ * @example
+ * ```ts
+ * const args = {
+ *   output: aliases(short(string(), 'o'), ['out', 'O'])
+ * }
+ * // Usage: --output, --out, -o, or -O
+ * ```
+ *
+ * @experimental
+ */
+// @__NO_SIDE_EFFECTS__
+export function aliases<T>(
+  schema: CombinatorSchema<T>,
+  names: string[]
+): CombinatorSchema<T> & CombinatorAliases {
+  return {
+    ...schema,
+    aliases: names
+  }
+}
+
+/**
+ * Options for the {@link env} combinator.
+ */
+type CombinatorEnv<E extends string | string[]> = { env: E }
+
+/**
+ * Set environment variable names to consult when the option is not provided on the command line.
+ *
+ * The original schema is not modified.
+ *
+ * @typeParam T - The schema's parsed type.
+ * @typeParam E - The environment variable names type.
+ *
+ * @param schema - The base combinator schema.
+ * @param names - An environment variable name, or names looked up in order.
+ * @returns A new schema with the environment variable names set.
+ *
+ * @example
+ * ```ts
+ * const args = {
+ *   port: env(integer(), 'PORT')
+ * }
+ * // Usage: --port 3000 or PORT=3000
+ * ```
+ *
+ * @experimental
+ */
+// @__NO_SIDE_EFFECTS__
+export function env<T, E extends string | string[]>(
+  schema: CombinatorSchema<T>,
+  names: E
+): CombinatorSchema<T> & CombinatorEnv<E> {
+  return {
+    ...schema,
+    env: names
+  }
+}
+
 /**
  * Options for the {@link describe} combinator.
  */
@@ -870,6 +1309,44 @@ export function hidden<T extends ArgSchema>(schema: T): Omit<T, 'hidden'> & Comb
   }
 }
 
+/**
+ * Options for the {@link deprecated} combinator.
+ */
+type CombinatorDeprecated = { deprecated: string | ArgDeprecation }
+
+/**
+ * Mark a combinator schema as deprecated.
+ *
+ * The original schema is not modified. When the argument is provided, a warning is reported in `warnings`
+ * of the resolved result, and the value is resolved as usual.
+ *
+ * @typeParam T - The parsed value type.
+ *
+ * @param schema - The base combinator schema.
+ * @param deprecation - A deprecation message, or the version and the replacement.
+ * @returns A new schema with `deprecated`.
+ *
+ * @example
+ * ```ts
+ * const args = {
+ *   color: deprecated(boolean(), { since: '2.0.0', replacement: 'theme' }),
+ *   theme: string()
+ * }
+ * ```
+ *
+ * @experimental
+ */
+// @__NO_SIDE_EFFECTS__
+export function deprecated<T>(
+  schema: CombinatorSchema<T>,
+  deprecation: string | ArgDeprecation
+): CombinatorSchema<T> & CombinatorDeprecated {
+  return {
+    ...schema,
+    deprecated: deprecation
+  }
+}
+
 /**
  * Options for the {@link unrequired} combinator.
  */
@@ -1058,3 +1535,102 @@ export function extend<T extends Args, U extends Args>(
   }
   return result as Omit<T, keyof U> & U
 }
+
+/**
+ * Create an "at most one of" group constraint over schema keys.
+ *
+ * Pass the group to `groups` of `resolveArgs` or `parse`.
+ *
+ * @typeParam A - Arguments schema type.
+ *
+ * @param schema - The arguments schema that the keys belong to.
+ * @param keys - Keys of the mutually exclusive arguments.
+ * @returns An argument group.
+ * @throws {TypeError} If a key is not defined in the schema.
+ *
+ * @example
+ * ```ts
+ * const schema = args({ json: boolean(), yaml: boolean(), toml: boolean() })
+ * const { values } = resolveArgs(schema, tokens, {
+ *   groups: [atMostOne(schema, ['json', 'yaml', 'toml'])]
+ * })
+ * ```
+ *
+ * @experimental
+ */
+// @__NO_SIDE_EFFECTS__
+export function atMostOne<A extends Args>(
+  schema: A,
+  keys: readonly (keyof A & string)[]
+): ArgGroup {
+  return createGroup('at-most-one', schema, keys)
+}
+
+/**
+ * Create an "at least one of" group constraint over schema keys.
+ *
+ * Pass the group to `groups` of `resolveArgs` or `parse`.
+ *
+ * @typeParam A - Arguments schema type.
+ *
+ * @param schema - The arguments schema that the keys belong to.
+ * @param keys - Keys of the arguments, one of which at least must be provided.
+ * @returns An argument group.
+ * @throws {TypeError} If a key is not defined in the schema.
+ *
+ * @example
+ * ```ts
+ * const schema = args({ file: unrequired(positional()), stdin: boolean() })
+ * const { values } = resolveArgs(schema, tokens, {
+ *   groups: [atLeastOne(schema, ['file', 'stdin'])]
+ * })
+ * ```
+ *
+ * @experimental
+ */
+// @__NO_SIDE_EFFECTS__
+export function atLeastOne<A extends Args>(
+  schema: A,
+  keys: readonly (keyof A & string)[]
+): ArgGroup {
+  return createGroup('at-least-one', schema, keys)
+}
+
+/**
+ * Create an "exactly one of" group constraint over schema keys.
+ *
+ * Pass the group to `groups` of `resolveArgs` or `parse`.
+ *
+ * @typeParam A - Arguments schema type.
+ *
+ * @param schema - The arguments schema that the keys belong to.
+ * @param keys - Keys of the arguments, exactly one of which must be provided.
+ * @returns An argument group.
+ * @throws {TypeError} If a key is not defined in the schema.
+ *
+ * @example
+ * ```ts
+ * const schema = args({ port: integer(), socket: string() })
+ * const { values } = resolveArgs(schema, tokens, {
+ *   groups: [exactlyOne(schema, ['port', 'socket'])]
+ * })
+ * ```
+ *
+ * @experimental
+ */
+// @__NO_SIDE_EFFECTS__
+export function exactlyOne<A extends Args>(
+  schema: A,
+  keys: readonly (keyof A & string)[]
+): ArgGroup {
+  return createGroup('exactly-one', schema, keys)
+}
+
+function createGroup(type: ArgGroup['type'], schema: Args, keys: readonly string[]): ArgGroup {
+  for (const key of keys) {
+    if (schema[key] == undefined) {
+      throw new TypeError(`argument '${key}' is not defined in the schema`)
+    }
+  }
+  return { type, keys }
+}
@@ -0,0 +1,73 @@
+import { describe, expect, test } from 'vitest'
+import { ArgCommandLineError, scanCommandLine, splitCommandLine } from './command-line.ts'
+import { parseArgs } from './parser.ts'
+
+describe('splitCommandLine', () => {
+  describe('posix', () => {
+    test.each([
+      ['', []],
+      [' \t\n ', []],
+      ['--foo bar  -x', ['--foo', 'bar', '-x']],
+      [`--name "John Doe" --tag 'a b'`, ['--name', 'John Doe', '--tag', 'a b']],
+      [`'it'\\''s'`, [`it's`]],
+      [`'a\\b "c"'`, [`a\\b "c"`]],
+      [`"a \\"b\\" \\$HOME \\\\ \\q"`, [`a "b" $HOME \\ \\q`]],
+      [`a\\ b \\'c\\'`, ['a b', `'c'`]],
+      [`"" ''`, ['', '']],
+      [`foo"bar baz"qux`, ['foobar bazqux']],
+      ['--foo \\\n  bar', ['--foo', 'bar']],
+      ['"line\\\ncontinued"', ['linecontinued']],
+      ['trailing\\', ['trailing\\']]
+    ])('%j', (str, expected) => {
+      expect(splitCommandLine(str)).toEqual(expected)
+      expect(splitCommandLine(str, { dialect: 'posix' })).toEqual(expected)
+    })
+
+    test('unterminated quote', () => {
+      expect(() => splitCommandLine(`--foo "bar baz`)).toThrowError(
+        new ArgCommandLineError('Unterminated double quote at offset 6', '"', 6, 14)
+      )
+      expect(() => splitCommandLine(`--foo 'bar "baz"`)).toThrowError(
+        new ArgCommandLineError('Unterminated single quote at offset 6', "'", 6, 16)
+      )
+    })
+  })
+
+  describe('windows', () => {
+    test.each([
+      ['', []],
+      ['--foo bar\t-x', ['--foo', 'bar', '-x']],
+      ['C:\\path\\to "C:\\Program Files"', ['C:\\path\\to', 'C:\\Program Files']],
+      [`'a b'`, [`'a`, `b'`]],
+      ['a"b c"d', ['ab cd']],
+      ['"a""b" ""', ['a"b', '']],
+      ['\\"a\\"', ['"a"']],
+      ['"C:\\Program Files\\\\"', ['C:\\Program Files\\']],
+      ['a\\\\\\"b', ['a\\"b']],
+      ['a\\\\\\\\"b c"', ['a\\\\b c']],
+      ['a\\\\b', ['a\\\\b']]
+    ])('%j', (str, expected) => {
+      expect(splitCommandLine(str, { dialect: 'windows' })).toEqual(expected)
+    })
+
+    test('unterminated quote', () => {
+      expect(() => splitCommandLine(`--foo "bar baz`, { dialect: 'windows' })).toThrowError(
+        new ArgCommandLineError('Unterminated double quote at offset 6', '"', 6, 14)
+      )
+    })
+  })
+
+  test('parseArgs', () => {
+    expect(parseArgs(splitCommandLine(`--name "John Doe" -v`))).toEqual(
+      parseArgs(['--name', 'John Doe', '-v'])
+    )
+  })
+})
+
+test('scanCommandLine', () => {
+  expect(scanCommandLine(`--name "John Doe" -v`)).toEqual([
+    { value: '--name', start: 0, end: 6 },
+    { value: 'John Doe', start: 7, end: 17 },
+    { value: '-v', start: 18, end: 20 }
+  ])
+})
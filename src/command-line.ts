@@ -0,0 +1,258 @@
+/**
+ * @author kazuya kawaguchi (a.k.a. kazupon)
+ * @license MIT
+ */
+
+/**
+ * Command line dialect.
+ *
+ * - `posix`: POSIX shell like quoting, see {@link splitCommandLine}
+ * - `windows`: Windows [`CommandLineToArgvW`](https://learn.microsoft.com/en-us/cpp/c-language/parsing-c-command-line-arguments) like quoting, see {@link splitCommandLine}
+ */
+export type CommandLineDialect = 'posix' | 'windows'
+
+/**
+ * Options for {@link splitCommandLine} function.
+ */
+export interface SplitCommandLineOptions {
+  /**
+   * Command line dialect, about details see {@link CommandLineDialect}.
+   *
+   * @default 'posix'
+   */
+  dialect?: CommandLineDialect
+}
+
+/**
+ * An argument in the command line, with its offsets.
+ */
+export interface CommandLineArg {
+  /**
+   * Argument value, which is unquoted and unescaped.
+   */
+  value: string
+  /**
+   * Start offset of the argument in the command line.
+   */
+  start: number
+  /**
+   * End offset (exclusive) of the argument in the command line.
+   */
+  end: number
+}
+
+/**
+ * An error that is thrown when the command line can not be split.
+ */
+export class ArgCommandLineError extends Error {
+  /**
+   * The unterminated quote character, `'` or `"`.
+   */
+  readonly quote: string
+  /**
+   * Start offset of the unterminated quote in the command line.
+   */
+  readonly start: number
+  /**
+   * End offset (exclusive) of the command line, where the closing quote is expected.
+   */
+  readonly end: number
+
+  /**
+   * Create an `ArgCommandLineError` instance.
+   *
+   * @param message - the error message
+   * @param quote - the unterminated quote character
+   * @param start - the start offset of the unterminated quote
+   * @param end - the end offset of the command line
+   */
+  constructor(message: string, quote: string, start: number, end: number) {
+    super(message)
+    this.name = 'ArgCommandLineError'
+    this.quote = quote
+    this.start = start
+    this.end = end
+  }
+}
+
+const SINGLE_QUOTE = "'"
+const DOUBLE_QUOTE = '"'
+const BACKSLASH = '\\'
+
+/**
+ * Characters that can be escaped with a backslash in double quotes on POSIX shell.
+ */
+const POSIX_DOUBLE_QUOTE_ESCAPES = new Set(['$', '`', DOUBLE_QUOTE, BACKSLASH, '\n'])
+
+/**
+ * Split a command line string into arguments, which can be passed to {@link parseArgs}.
+ *
+ * With the `posix` dialect:
+ * - Arguments are separated by whitespace, including newlines.
+ * - Single quotes (`'...'`) preserve the enclosed characters literally.
+ * - Double quotes (`"..."`) preserve the enclosed characters, except for backslash escapes of `$`, `` ` ``, `"`, `\` and newline.
+ * - Backslash (`\`) outside of quotes escapes the next character, and a backslash-newline continues the line.
+ *
+ * With the `windows` dialect, the string is split like the arguments after the program name by `CommandLineToArgvW`:
+ * - Arguments are separated by spaces and tabs.
+ * - Double quotes (`"..."`) preserve the enclosed spaces and tabs, and `""` in double quotes is a literal `"`.
+ * - `2n` backslashes followed by `"` are `n` backslashes and a quote, `2n + 1` backslashes followed by `"` are `n` backslashes and a literal `"`.
+ * - Other backslashes are literal.
+ *
+ * Variables, globs, and other shell expansions are not supported.
+ *
+ * @example
+ * ```js
+ * import { parseArgs, splitCommandLine } from 'args-tokens'
+ *
+ * const args = splitCommandLine(`--name "John Doe" --tag 'a b'`)
+ * // ['--name', 'John Doe', '--tag', 'a b']
+ * const tokens = parseArgs(args)
+ *
+ * splitCommandLine(String.raw`C:\path\to "C:\Program Files\\" \"quoted\"`, { dialect: 'windows' })
+ * // ['C:\\path\\to', 'C:\\Program Files\\', '"quoted"']
+ * ```
+ *
+ * @param str - A command line string
+ * @param options - Split options, about details see {@link SplitCommandLineOptions}
+ * @returns The arguments.
+ * @throws {ArgCommandLineError} if the command line has an unterminated quote.
+ */
+export function splitCommandLine(str: string, options: SplitCommandLineOptions = {}): string[] {
+  return scanCommandLine(str, options.dialect).map(arg => arg.value)
+}
+
+/**
+ * Scan a command line string into arguments with their offsets.
+ *
+ * @param str - A command line string
+ * @param dialect - Command line dialect
+ * @returns The arguments with their offsets.
+ * @throws {ArgCommandLineError} if the command line has an unterminated quote.
+ */
+export function scanCommandLine(
+  str: string,
+  dialect: CommandLineDialect = 'posix'
+): CommandLineArg[] {
+  const args: CommandLineArg[] = []
+  const windows = dialect === 'windows'
+  let value = ''
+  // start offset of the current argument, or `-1` between arguments
+  let start = -1
+  let quote: string | undefined
+  let quoteStart = 0
+
+  const begin = (offset: number) => {
+    if (start === -1) {
+      start = offset
+    }
+  }
+
+  for (let i = 0; i < str.length; i++) {
+    const char = str.charAt(i)
+
+    if (windows) {
+      if (char === BACKSLASH) {
+        let end = i
+        while (str.charAt(end) === BACKSLASH) {
+          end++
+        }
+        const count = end - i
+        begin(i)
+        if (str.charAt(end) === DOUBLE_QUOTE) {
+          value += BACKSLASH.repeat(count >> 1)
+          if (count % 2 === 1) {
+            // escaped quote
+            value += DOUBLE_QUOTE
+            i = end
+          } else {
+            // the quote is processed in the next iteration
+            i = end - 1
+          }
+        } else {
+          value += BACKSLASH.repeat(count)
+          i = end - 1
+        }
+      } else if (char === DOUBLE_QUOTE) {
+        begin(i)
+        if (quote === undefined) {
+          quote = char
+          quoteStart = i
+        } else if (str.charAt(i + 1) === DOUBLE_QUOTE) {
+          value += DOUBLE_QUOTE
+          i++
+        } else {
+          quote = undefined
+        }
+      } else if (quote === undefined && (char === ' ' || char === '\t')) {
+        if (start !== -1) {
+          args.push({ value, start, end: i })
+          value = ''
+          start = -1
+        }
+      } else {
+        begin(i)
+        value += char
+      }
+      continue
+    }
+
+    if (quote === SINGLE_QUOTE) {
+      if (char === SINGLE_QUOTE) {
+        quote = undefined
+      } else {
+        value += char
+      }
+    } else if (quote === DOUBLE_QUOTE) {
+      if (char === DOUBLE_QUOTE) {
+        quote = undefined
+      } else if (char === BACKSLASH && POSIX_DOUBLE_QUOTE_ESCAPES.has(str.charAt(i + 1))) {
+        const next = str.charAt(++i)
+        // backslash-newline is removed
+        if (next !== '\n') {
+          value += next
+        }
+      } else {
+        value += char
+      }
+    } else if (char === SINGLE_QUOTE || char === DOUBLE_QUOTE) {
+      begin(i)
+      quote = char
+      quoteStart = i
+    } else if (char === BACKSLASH && i + 1 < str.length) {
+      const next = str.charAt(i + 1)
+      if (next === '\n' || (next === '\r' && str.charAt(i + 2) === '\n')) {
+        // line continuation
+        i += next === '\r' ? 2 : 1
+        continue
+      }
+      begin(i)
+      value += next
+      i++
+    } else if (char === ' ' || char === '\t' || char === '\n' || char === '\r') {
+      if (start !== -1) {
+        args.push({ value, start, end: i })
+        value = ''
+        start = -1
+      }
+    } else {
+      begin(i)
+      value += char
+    }
+  }
+
+  if (quote !== undefined) {
+    throw new ArgCommandLineError(
+      `Unterminated ${quote === DOUBLE_QUOTE ? 'double' : 'single'} quote at offset ${quoteStart}`,
+      quote,
+      quoteStart,
+      str.length
+    )
+  }
+
+  if (start !== -1) {
+    args.push({ value, start, end: str.length })
+  }
+
+  return args
+}
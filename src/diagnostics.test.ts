@@ -0,0 +1,248 @@
+import { describe, expect, test } from 'vitest'
+import { integer, list } from './combinators.ts'
+import { formatDiagnostics } from './diagnostics.ts'
+import { expandResponseFiles, parseArgs } from './parser.ts'
+import { ArgsValidationError, resolveArgs } from './resolver.ts'
+
+import type { Args, ResolveArgs } from './resolver.ts'
+
+const args = {
+  port: {
+    type: 'number',
+    short: 'p'
+  },
+  mode: {
+    type: 'enum',
+    choices: ['dev', 'prod']
+  },
+  name: {
+    type: 'string',
+    required: true
+  },
+  json: {
+    type: 'boolean',
+    conflicts: 'yaml'
+  },
+  yaml: {
+    type: 'boolean'
+  },
+  size: {
+    type: 'custom',
+    parse: value => {
+      if (!/^\d+[kmg]$/.test(value)) {
+        throw new Error(`Invalid size '${value}'`)
+      }
+      return value
+    }
+  }
+} satisfies Args
+
+function diagnose(argv: string[], resolveArgsOptions: ResolveArgs = {}, offsets = true): string {
+  const tokens = parseArgs(argv, { offsets })
+  const { error } = resolveArgs(args, tokens, resolveArgsOptions)
+  return formatDiagnostics(argv, tokens, error, { env: {} })
+}
+
+describe('formatDiagnostics', () => {
+  test('no error', () => {
+    const argv = ['--name', 'foo']
+    const tokens = parseArgs(argv)
+    const { error } = resolveArgs(args, tokens)
+    expect(formatDiagnostics(argv, tokens, error)).toBe('')
+  })
+
+  test('type error', () => {
+    expect(diagnose(['--name', 'foo', '--port', 'abc'])).toBe(
+      [
+        `error: Optional argument '--port' or '-p' should be 'number'`,
+        `  --name foo --port abc`,
+        `             ^^^^^^^^^^`
+      ].join('\n')
+    )
+  })
+
+  test('type error with short option group', () => {
+    expect(diagnose(['--name', 'foo', '-p=abc'])).toBe(
+      [
+        `error: Optional argument '--port' or '-p' should be 'number'`,
+        `  --name foo -p=abc`,
+        `             ^^^^^^`
+      ].join('\n')
+    )
+  })
+
+  test('choice error', () => {
+    expect(diagnose(['--mode=test', '--name', 'foo'])).toBe(
+      [
+        `error: Optional argument '--mode' should be chosen from 'enum' ["dev", "prod"] values`,
+        `  --mode=test --name foo`,
+        `  ^^^^^^^^^^^`
+      ].join('\n')
+    )
+  })
+
+  test('custom parse error', () => {
+    expect(diagnose(['--name', 'foo', '--size', '1m', '--size', '1x'], {}, false)).toBe(
+      [
+        `error: Invalid size '1x'`,
+        `  --name foo --size 1m --size 1x`,
+        `                       ^^^^^^^^^`
+      ].join('\n')
+    )
+  })
+
+  test('positional custom parse error', () => {
+    const argv = ['--tag', 'x', 'x']
+    const tokens = parseArgs(argv, { offsets: true })
+    const { error } = resolveArgs(
+      {
+        tag: {
+          type: 'string'
+        },
+        file: {
+          type: 'positional',
+          parse: value => {
+            throw new Error(`Invalid file '${value}'`)
+          }
+        }
+      },
+      tokens
+    )
+    expect(formatDiagnostics(argv, tokens, error, { env: {} })).toBe(
+      [`error: Invalid file 'x'`, `  --tag x x`, `          ^`].join('\n')
+    )
+  })
+
+  test('list item error', () => {
+    const argv = ['--ports', '80,x']
+    const tokens = parseArgs(argv, { offsets: true })
+    const { error } = resolveArgs({ ports: list(integer()) }, tokens)
+    expect(formatDiagnostics(argv, tokens, error, { env: {} })).toBe(
+      [`error: Expected an integer, got 'x'`, `  --ports 80,x`, `  ^^^^^^^^^^^^`].join('\n')
+    )
+  })
+
+  test('required error', () => {
+    expect(diagnose(['--port', '8080'])).toBe(
+      [`error: Optional argument '--name' is required`, `  --port 8080`, `              ^`].join(
+        '\n'
+      )
+    )
+  })
+
+  test('conflict error', () => {
+    expect(diagnose(['--json', '--name', 'foo', '--yaml'])).toBe(
+      [
+        `error: Optional argument '--json' conflicts with '--yaml'`,
+        `  --json --name foo --yaml`,
+        `  ^^^^^^            ^^^^^^`
+      ].join('\n')
+    )
+  })
+
+  test('conflict error with configuration layer', () => {
+    expect(
+      diagnose(['--name', 'foo', '--json'], {
+        config: [{ name: 'app.json', values: { yaml: true } }]
+      })
+    ).toBe(
+      [
+        `error: Optional argument '--json' conflicts with configuration key 'yaml' in 'app.json'`,
+        `  --name foo --json`,
+        `             ^^^^^^`
+      ].join('\n')
+    )
+  })
+
+  test('unknown option', () => {
+    expect(diagnose(['--name', 'foo', '-xp', '1'], { strict: true })).toBe(
+      [`error: Unknown option '-x'`, `  --name foo -xp 1`, `             ^^`].join('\n')
+    )
+  })
+
+  test('multiple errors', () => {
+    expect(diagnose(['--port', 'abc', '--mode', 'test'])).toBe(
+      [
+        `error: Optional argument '--port' or '-p' should be 'number'`,
+        `  --port abc --mode test`,
+        `  ^^^^^^^^^^`,
+        ``,
+        `error: Optional argument '--mode' should be chosen from 'enum' ["dev", "prod"] values`,
+        `  --port abc --mode test`,
+        `             ^^^^^^^^^^^`,
+        ``,
+        `error: Optional argument '--name' is required`,
+        `  --port abc --mode test`,
+        `                         ^`
+      ].join('\n')
+    )
+  })
+
+  test('error without location', () => {
+    const argv = ['--name', 'foo']
+    const tokens = parseArgs(argv)
+    const error = new ArgsValidationError(`'--name' should not be 'foo'`)
+    expect(formatDiagnostics(argv, tokens, error, { env: {} })).toBe(
+      `error: '--name' should not be 'foo'`
+    )
+  })
+
+  describe('response files', () => {
+    const readResponseFile = () => '--name foo\n--port abc'
+    const argv = ['--json', '@args.txt', '--yaml']
+    const tokens = parseArgs(argv, { readResponseFile, offsets: true })
+    const { error } = resolveArgs(args, tokens)
+
+    test('expanded arguments', () => {
+      expect(
+        formatDiagnostics(expandResponseFiles(argv, readResponseFile), tokens, error, { env: {} })
+      ).toBe(
+        [
+          `error: Optional argument '--port' or '-p' should be 'number'`,
+          `  --json --name foo --port abc --yaml`,
+          `                    ^^^^^^^^^^`,
+          `  --> args.txt:2`,
+          ``,
+          `error: Optional argument '--json' conflicts with '--yaml'`,
+          `  --json --name foo --port abc --yaml`,
+          `  ^^^^^^                       ^^^^^^`
+        ].join('\n')
+      )
+    })
+
+    test('not expanded arguments', () => {
+      for (const parsedTokens of [tokens, parseArgs(argv, { readResponseFile })]) {
+        expect(formatDiagnostics(argv, parsedTokens, error, { env: {} })).toBe(
+          [
+            `error: Optional argument '--port' or '-p' should be 'number'`,
+            `  --> args.txt:2`,
+            ``,
+            `error: Optional argument '--json' conflicts with '--yaml'`
+          ].join('\n')
+        )
+      }
+    })
+  })
+
+  describe('color', () => {
+    const argv = ['--name']
+    const tokens = parseArgs(argv)
+    const { error } = resolveArgs(args, tokens)
+
+    test('enabled', () => {
+      expect(formatDiagnostics(argv, tokens, error, { color: true, env: {} })).toBe(
+        [
+          `\u001B[1m\u001B[31merror:\u001B[0m Optional argument '--name' is required`,
+          `  --name`,
+          `  \u001B[31m^^^^^^\u001B[0m`
+        ].join('\n')
+      )
+    })
+
+    test('NO_COLOR', () => {
+      expect(formatDiagnostics(argv, tokens, error, { color: true, env: { NO_COLOR: '1' } })).toBe(
+        [`error: Optional argument '--name' is required`, `  --name`, `  ^^^^^^`].join('\n')
+      )
+    })
+  })
+})
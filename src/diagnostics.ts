@@ -0,0 +1,362 @@
+/**
+ * @author kazuya kawaguchi (a.k.a. kazupon)
+ * @license MIT
+ */
+
+import { getLineStarts, isResponseFile } from './parser.ts'
+import { ArgResolveError, ArgsValidationErrorKeys, isArgsValidationError } from './resolver.ts'
+import { kebabnize } from './utils.ts'
+
+import type { ArgToken } from './parser.ts'
+import type { ArgsValidationError } from './resolver.ts'
+
+/**
+ * Format options for {@link formatDiagnostics} function.
+ */
+export interface FormatDiagnosticsOptions {
+  /**
+   * Whether to colorize the diagnostics with ANSI escape codes.
+   *
+   * Colors are always disabled when the `NO_COLOR` environment variable is set to a non-empty value.
+   *
+   * @default false
+   */
+  color?: boolean
+  /**
+   * Environment variables to check `NO_COLOR`.
+   *
+   * @default process.env
+   */
+  env?: Record<string, string | undefined>
+}
+
+type Range = [start: number, end: number]
+
+const ANSI_RED = '\u001B[31m'
+const ANSI_YELLOW = '\u001B[33m'
+const ANSI_BOLD = '\u001B[1m'
+const ANSI_RESET = '\u001B[0m'
+
+/**
+ * Codes of the errors that are caused by the value of the argument, not by the argument itself.
+ */
+const VALUE_ERROR_CODES = new Set<string>([
+  ArgsValidationErrorKeys.invalidType,
+  ArgsValidationErrorKeys.invalidChoice,
+  ArgsValidationErrorKeys.customParse,
+  ArgsValidationErrorKeys.duplicateKey
+])
+
+/**
+ * Format the errors of {@link resolveArgs} as diagnostics, which reprint the command line and underline the argument responsible for each error.
+ *
+ * @example
+ * ```js
+ * import { formatDiagnostics, parseArgs, resolveArgs } from 'args-tokens'
+ *
+ * const argv = ['--port', 'abc']
+ * const tokens = parseArgs(argv, { offsets: true })
+ * const { error } = resolveArgs({ port: { type: 'number' } }, tokens)
+ * console.error(formatDiagnostics(argv, tokens, error))
+ * // error: Optional argument '--port' should be 'number'
+ * //   --port abc
+ * //   ^^^^^^^^^^
+ * ```
+ *
+ * Tokens that came from the response files are also reported with their `file` and `line`.
+ * Their `index` refers to the expanded arguments, so pass the arguments expanded by {@link expandResponseFiles} as `argv` to underline them.
+ * If `argv` is not expanded, the errors are not underlined.
+ *
+ * @param argv - Command line arguments, which are passed to {@link parseArgs}
+ * @param tokens - Argument tokens, which are parsed by {@link parseArgs}. The offsets of the tokens are used if they are parsed with the `offsets` option
+ * @param error - An error, which is returned by {@link resolveArgs}. If it's an `AggregateError`, each of the `errors` is formatted
+ * @param options - Format options, see {@link FormatDiagnosticsOptions}
+ * @returns The formatted diagnostics, or an empty string if there is no error
+ */
+export function formatDiagnostics(
+  argv: string[],
+  tokens: ArgToken[],
+  error: Error | undefined,
+  options: FormatDiagnosticsOptions = {}
+): string {
+  if (error == undefined) {
+    return ''
+  }
+
+  const errors = error instanceof AggregateError ? (error.errors as Error[]) : [error]
+  const env = options.env ?? getProcessEnv()
+  const color = !!options.color && !env?.NO_COLOR
+  const line = argv.join(' ')
+  const lineStarts = getLineStarts(argv)
+  // the tokens parsed with the `readResponseFile` option refer to the expanded arguments
+  const locatable = !isExpandedFrom(argv, tokens)
+
+  const diagnostics: string[] = []
+  for (const err of errors) {
+    const isWarning = isArgsValidationError(err) && !!err.code?.startsWith('warn:')
+    const label = isWarning ? 'warning' : 'error'
+    const paint = (str: string) =>
+      color ? `${isWarning ? ANSI_YELLOW : ANSI_RED}${str}${ANSI_RESET}` : str
+
+    // the response files that the located tokens came from
+    const files = new Set<string>()
+    const getRange = (token: ArgToken): Range | undefined => {
+      if (token.file != undefined) {
+        files.add(`${token.file}:${token.line}`)
+      }
+      if (!locatable) {
+        return undefined
+      }
+      if (token.lineStart != undefined && token.lineEnd != undefined) {
+        return [token.lineStart, token.lineEnd]
+      }
+      const start = lineStarts[token.index]
+      return start === undefined ? undefined : [start, start + argv[token.index].length]
+    }
+
+    const lines = [`${color ? ANSI_BOLD : ''}${paint(`${label}:`)} ${err.message}`]
+    const ranges = isArgsValidationError(err) ? locateError(err, argv, tokens, getRange) : []
+    if (ranges && ranges.length > 0) {
+      lines.push(`  ${line}`, `  ${paint(underline(ranges))}`)
+    }
+    for (const file of files) {
+      lines.push(`  --> ${file}`)
+    }
+    diagnostics.push(lines.join('\n'))
+  }
+
+  return diagnostics.join('\n\n')
+}
+
+/**
+ * Locate the error in the command line.
+ *
+ * @param error - An {@link ArgsValidationError}
+ * @param argv - Command line arguments
+ * @param tokens - Argument tokens
+ * @param getRange - Get the range of the token in the command line, or `undefined` if the token is not in the command line
+ * @returns The ranges to underline. If the argument is missing, the range points at the end of the command line. If the error can not be located, `undefined`.
+ */
+function locateError(
+  error: ArgsValidationError,
+  argv: string[],
+  tokens: ArgToken[],
+  getRange: (token: ArgToken) => Range | undefined
+): Range[] | undefined {
+  const values = error.values
+  // the value came from the environment variable or the configuration layer
+  const fromOutside = values.env != undefined || values.layer != undefined
+  const conflictingFromOutside =
+    values.conflictingEnv != undefined || values.conflictingLayer != undefined
+
+  if (fromOutside && (error.code !== ArgsValidationErrorKeys.conflict || conflictingFromOutside)) {
+    return undefined
+  }
+
+  const actual =
+    typeof values.actual === 'string' || typeof values.actual === 'number'
+      ? String(values.actual)
+      : undefined
+
+  // unknown or ambiguous options
+  if (typeof values.index === 'number' && typeof values.rawName === 'string') {
+    const token = tokens.find(
+      token =>
+        token.kind === 'option' && token.index === values.index && token.rawName === values.rawName
+    )
+    return toRanges(token && getRange(token))
+  }
+
+  // positional arguments have no name, so they are located by the index of the token
+  if (typeof values.tokenIndex === 'number') {
+    const token = tokens.find(
+      token => token.kind === 'positional' && token.index === values.tokenIndex
+    )
+    return toRanges(token && getRange(token))
+  }
+
+  switch (error.code) {
+    case ArgsValidationErrorKeys.conflict: {
+      return collectRanges(
+        [
+          fromOutside
+            ? []
+            : findOptionTokens(tokens, getOptionNames(error, values.displayName, values.name)),
+          conflictingFromOutside
+            ? []
+            : findOptionTokens(
+                tokens,
+                getOptionNames(undefined, values.conflictingDisplayName, values.conflicting)
+              )
+        ],
+        getRange
+      )
+    }
+    case ArgsValidationErrorKeys.groupConflict: {
+      const displayNames = (values.providedDisplayNames as string[] | undefined) ?? []
+      const provided = (values.provided as string[] | undefined) ?? []
+      return collectRanges(
+        provided.map((name, index) =>
+          findOptionTokens(tokens, getOptionNames(undefined, displayNames[index], name))
+        ),
+        getRange
+      )
+    }
+    case ArgsValidationErrorKeys.groupRequired:
+    case ArgsValidationErrorKeys.requiredPositional: {
+      return [getEndRange(argv)]
+    }
+  }
+
+  const occurrences = findOptionTokens(
+    tokens,
+    getOptionNames(error, values.displayName, values.name)
+  )
+
+  if (occurrences.length === 0) {
+    return error.code === ArgsValidationErrorKeys.requiredOption ? [getEndRange(argv)] : undefined
+  }
+
+  if (error.code == undefined || !VALUE_ERROR_CODES.has(error.code)) {
+    return toRanges(getRange(occurrences.at(-1)!))
+  }
+
+  // underline the option with its value
+  const withValues = occurrences.map(token => {
+    const valueToken = token.value === undefined ? findValueToken(tokens, token) : undefined
+    return { token, valueToken, value: valueToken ? valueToken.value : token.value }
+  })
+  const occurrence =
+    withValues.findLast(occurrence => actual !== undefined && occurrence.value === actual) ??
+    withValues.at(-1)!
+  const range = getRange(occurrence.token)
+  const valueRange = occurrence.valueToken && getRange(occurrence.valueToken)
+  return toRanges(range && valueRange ? [range[0], valueRange[1]] : range)
+}
+
+function toRanges(range: Range | undefined): Range[] | undefined {
+  return range ? [range] : undefined
+}
+
+/**
+ * Get the option names (e.g. `--foo`, `-f`) of the argument, which may be in the command line.
+ *
+ * @param error - An {@link ArgResolveError}, which has the argument schema
+ * @param displayName - The display name of the argument, e.g. `'--foo' or '-f'`
+ * @param name - The name of the argument
+ * @returns The option names
+ */
+function getOptionNames(
+  error: ArgsValidationError | undefined,
+  displayName: unknown,
+  name: unknown
+): Set<string> {
+  const names = new Set<string>()
+  if (typeof displayName === 'string') {
+    for (const match of displayName.matchAll(/'(-{1,2}[^']+)'/g)) {
+      names.add(match[1])
+    }
+  }
+  if (typeof name === 'string') {
+    names.add(`--${name}`).add(`--${kebabnize(name)}`)
+  }
+  if (error instanceof ArgResolveError) {
+    if (error.schema.short) {
+      names.add(`-${error.schema.short}`)
+    }
+    for (const alias of error.schema.aliases ?? []) {
+      names.add(alias.length === 1 ? `-${alias}` : `--${alias}`)
+    }
+  }
+  return names
+}
+
+function findOptionTokens(tokens: ArgToken[], names: Set<string>): ArgToken[] {
+  return tokens.filter(
+    token =>
+      token.kind === 'option' &&
+      token.rawName != undefined &&
+      (names.has(token.rawName) ||
+        (token.rawName.startsWith('--no-') && names.has(`--${token.rawName.slice(5)}`)))
+  )
+}
+
+/**
+ * Find the value token of the option, which is the value of the short option group (e.g. `-f=bar`), or the next argument (e.g. `--foo bar`).
+ *
+ * @param tokens - Argument tokens
+ * @param token - An option token, which has no inline value
+ * @returns The value token
+ */
+function findValueToken(tokens: ArgToken[], token: ArgToken): ArgToken | undefined {
+  const next = tokens[tokens.indexOf(token) + 1]
+  if (next == undefined) {
+    return undefined
+  }
+  if (next.kind === 'option' && next.name == undefined && next.index === token.index) {
+    return next
+  }
+  if (next.kind === 'positional' && next.index === token.index + 1) {
+    return next
+  }
+  return undefined
+}
+
+function collectRanges(
+  occurrences: ArgToken[][],
+  getRange: (token: ArgToken) => Range | undefined
+): Range[] | undefined {
+  const ranges = occurrences
+    .map(tokens => tokens.at(-1))
+    .filter(token => token != undefined)
+    .map(token => getRange(token))
+    .filter(range => range != undefined)
+  return ranges.length > 0 ? ranges : undefined
+}
+
+/**
+ * Check whether the tokens are parsed from the arguments that the response files in `argv` are expanded into.
+ * Response files that are not expanded remain as positional tokens at the same index.
+ *
+ * @param argv - Command line arguments
+ * @param tokens - Argument tokens
+ * @returns `true` if the response files in `argv` are expanded
+ */
+function isExpandedFrom(argv: string[], tokens: ArgToken[]): boolean {
+  for (const [index, arg] of argv.entries()) {
+    // the arguments after the options terminator are not expanded
+    if (arg === '--') {
+      return false
+    }
+    if (
+      isResponseFile(arg) &&
+      !tokens.some(
+        token => token.kind === 'positional' && token.index === index && token.value === arg
+      )
+    ) {
+      return true
+    }
+  }
+  return false
+}
+
+function getEndRange(argv: string[]): Range {
+  const end = argv.join(' ').length + (argv.length > 0 ? 1 : 0)
+  return [end, end + 1]
+}
+
+function underline(ranges: Range[]): string {
+  let str = ''
+  for (const [start, end] of ranges.toSorted((a, b) => a[0] - b[0])) {
+    if (start < str.length) {
+      str += '^'.repeat(Math.max(0, end - str.length))
+    } else {
+      str += ' '.repeat(start - str.length) + '^'.repeat(Math.max(1, end - start))
+    }
+  }
+  return str
+}
+
+function getProcessEnv(): Record<string, string | undefined> | undefined {
+  return (globalThis as { process?: { env?: Record<string, string | undefined> } }).process?.env
+}
@@ -9,24 +9,41 @@
  * @license MIT
  */
 
-export { parse } from './parse.ts'
-export { parseArgs } from './parser.ts'
+export { ArgCommandLineError, splitCommandLine } from './command-line.ts'
+export { formatDiagnostics } from './diagnostics.ts'
+export { parse, parseAsync } from './parse.ts'
+export { ArgResponseFileError, expandResponseFiles, parseArgs, tokenize } from './parser.ts'
 export {
   ArgResolveError,
   ArgsValidationError,
   ArgsValidationErrorKeys,
   isArgsValidationError,
-  resolveArgs
+  resolveArgs,
+  resolveArgsAsync
 } from './resolver.ts'
 
-export type { ParsedArgs, ParseOptions } from './parse.ts'
-export type { ArgToken, ParserOptions } from './parser.ts'
+export type { CommandLineDialect, SplitCommandLineOptions } from './command-line.ts'
+export type { FormatDiagnosticsOptions } from './diagnostics.ts'
+export type { AsyncParsedArgs, AsyncParseOptions, ParsedArgs, ParseOptions } from './parse.ts'
+export type { ArgToken, ParserOptions, ResponseFileReader } from './parser.ts'
 export type {
+  ArgBooleanValues,
+  ArgConfigLayer,
+  ArgDeprecation,
+  ArgEnvProvided,
   ArgExplicitlyProvided,
+  ArgGroup,
+  ArgListValue,
+  ArgMapEntry,
   ArgResolveErrorType,
   Args,
   ArgsValidationErrorCode,
   ArgSchema,
   ArgValues,
+  ArgValueSource,
+  ArgValueSourceKind,
+  ArgValueSources,
+  AsyncArgValues,
+  AsyncResolveArgs,
   ResolveArgs
 } from './resolver.ts'
@@ -1,6 +1,7 @@
 import { expect, test } from 'vitest'
-import { parse } from './parse.ts'
+import { parse, parseAsync } from './parse.ts'
 import { parseArgs } from './parser.ts'
+import { ArgsValidationError, ArgsValidationErrorKeys } from './resolver.ts'
 
 import type { Args } from './resolver.ts'
 
@@ -65,3 +66,56 @@ test('parse', () => {
   expect(rest).toEqual(['--help', '--version', '--port', '8080'])
   expect(tokens).toEqual(parseArgs(argv))
 })
+
+test('parse with resolve options', () => {
+  const argv = ['--host', 'example.com', '--verbsoe', '-hv']
+  const { values, error } = parse(argv, { args, strict: true, shortGrouping: true })
+  expect(values).toEqual({
+    port: 8080,
+    host: 'example.com',
+    help: true,
+    version: true
+  })
+  expect(error?.errors.length).toBe(1)
+  expect(error?.errors[0]).toMatchObject({
+    code: ArgsValidationErrorKeys.unknownOption,
+    message: "Unknown option '--verbsoe'"
+  })
+})
+
+test('parse with response files', () => {
+  const { values, tokens } = parse(['@args.txt', '--host', 'example.com'], {
+    args,
+    readResponseFile: path => (path === 'args.txt' ? '--port 3000\n-v' : '')
+  })
+  expect(values).toEqual({ port: 3000, host: 'example.com', version: true })
+  expect(tokens[1]).toMatchObject({ value: '3000', file: 'args.txt', line: 1 })
+})
+
+test('parse with validate', () => {
+  const { error } = parse(['--port', '80', '--host', 'localhost'], {
+    args,
+    validate(values) {
+      if (values.port < 1024) {
+        throw new ArgsValidationError(`Port ${values.port} is reserved`)
+      }
+    }
+  })
+  expect(error?.errors.map((e: Error) => e.message)).toEqual(['Port 80 is reserved'])
+})
+
+test('parseAsync', async () => {
+  const argv = ['--host', 'example.com', '--port', '3000']
+  const { values, tokens, error } = await parseAsync(argv, {
+    args: {
+      ...args,
+      host: {
+        ...args.host,
+        parse: (value: string) => Promise.resolve(value.toUpperCase())
+      }
+    }
+  })
+  expect(error).toBeUndefined()
+  expect(values).toEqual({ port: 3000, host: 'EXAMPLE.COM' })
+  expect(tokens).toEqual(parseArgs(argv))
+})
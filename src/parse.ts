@@ -4,17 +4,39 @@
  */
 
 import { parseArgs } from './parser.ts'
-import { resolveArgs } from './resolver.ts'
+import { resolveArgs, resolveArgsAsync } from './resolver.ts'
 
 import type { ArgToken, ParserOptions } from './parser.ts'
-import type { ArgExplicitlyProvided, Args, ArgValues, ResolveArgs } from './resolver.ts'
+import type {
+  ArgEnvProvided,
+  ArgExplicitlyProvided,
+  Args,
+  ArgsValidationError,
+  ArgValues,
+  ArgValueSources,
+  AsyncArgValues,
+  AsyncResolveArgs,
+  ResolveArgs
+} from './resolver.ts'
 
 /**
  * Parse options for {@link parse} function.
  *
  * @typeParam A - {@link Args | Arguments schema}, which is an object that defines the command line arguments.
  */
-export interface ParseOptions<A extends Args> extends ParserOptions, ResolveArgs {
+export interface ParseOptions<A extends Args> extends ParserOptions, ResolveArgs<A> {
+  /**
+   * Command line arguments.
+   */
+  args?: A
+}
+
+/**
+ * Parse options for {@link parseAsync} function.
+ *
+ * @typeParam A - {@link Args | Arguments schema}, which is an object that defines the command line arguments.
+ */
+export interface AsyncParseOptions<A extends Args> extends ParserOptions, AsyncResolveArgs<A> {
   /**
    * Command line arguments.
    */
@@ -43,6 +65,12 @@ export type ParsedArgs<A extends Args> = {
    * Validation errors, same as `errors` in {@link resolveArgs}.
    */
   error: AggregateError | undefined
+  /**
+   * Warnings, same as `warnings` in {@link resolveArgs}.
+   *
+   * Reports deprecated arguments, which do not fail the parsing.
+   */
+  warnings: ArgsValidationError[]
   /**
    * Argument tokens, same as `tokens` which is parsed by {@link parseArgs}.
    */
@@ -53,6 +81,32 @@ export type ParsedArgs<A extends Args> = {
    * Indicates which arguments were explicitly provided vs using default values.
    */
   explicit: ArgExplicitlyProvided<A>
+  /**
+   * Environment variable provision status, same as `fromEnv` in {@link resolveArgs}.
+   *
+   * Indicates which arguments were provided from environment variables.
+   */
+  fromEnv: ArgEnvProvided<A>
+  /**
+   * Value sources, same as `sources` in {@link resolveArgs}.
+   *
+   * Indicates where the value of each argument comes from.
+   */
+  sources: ArgValueSources<A>
+}
+
+/**
+ * Parsed command line arguments, resolved by {@link parseAsync}.
+ *
+ * Same as {@link ParsedArgs}, except that `values` are awaited.
+ *
+ * @typeParam A - {@link Args | Arguments schema}, which is an object that defines the command line arguments.
+ */
+export type AsyncParsedArgs<A extends Args> = Omit<ParsedArgs<A>, 'values'> & {
+  /**
+   * Parsed values, same as `values` in {@link resolveArgsAsync}.
+   */
+  values: AsyncArgValues<A>
 }
 
 const DEFAULT_OPTIONS = {
@@ -90,11 +144,65 @@ export function parse<A extends Args>(
   args: string[],
   options: ParseOptions<A> = {}
 ): ParsedArgs<A> {
-  const { args: _args, allowCompatible = false } = options
-  const tokens = parseArgs(args, { allowCompatible })
+  const {
+    args: _args,
+    allowCompatible = false,
+    offsets = false,
+    readResponseFile,
+    ...resolveOptions
+  } = options
+  const tokens = parseArgs(args, { allowCompatible, offsets, readResponseFile })
   return Object.assign(
     Object.create(null),
-    resolveArgs<A>((_args as A) || DEFAULT_OPTIONS, tokens),
+    resolveArgs<A>((_args as A) || DEFAULT_OPTIONS, tokens, resolveOptions),
     { tokens }
   ) as ParsedArgs<A>
 }
+
+/**
+ * Parse command line arguments asynchronously.
+ *
+ * This function is a convenient API, that is used {@link parseArgs} and {@link resolveArgsAsync} in internal.
+ *
+ * @typeParam A - {@link Args | Arguments schema}, which is an object that defines the command line arguments.
+ *
+ * @param args - command line arguments
+ * @param options - parse options, about details see {@link AsyncParseOptions}
+ * @returns A promise of an object that contains the awaited values of the arguments, positional arguments, {@link AggregateError | validation errors}, and {@link ArgToken | argument tokens}.
+ *
+ * @example
+ * ```js
+ * import { access } from 'node:fs/promises'
+ * import { parseAsync } from 'args-tokens'
+ *
+ * const { values, error } = await parseAsync(process.argv.slice(2), {
+ *   args: {
+ *     file: {
+ *       type: 'positional',
+ *       parse: async value => {
+ *         await access(value)
+ *         return value
+ *       }
+ *     }
+ *   }
+ * })
+ * ```
+ */
+export async function parseAsync<A extends Args>(
+  args: string[],
+  options: AsyncParseOptions<A> = {}
+): Promise<AsyncParsedArgs<A>> {
+  const {
+    args: _args,
+    allowCompatible = false,
+    offsets = false,
+    readResponseFile,
+    ...resolveOptions
+  } = options
+  const tokens = parseArgs(args, { allowCompatible, offsets, readResponseFile })
+  return Object.assign(
+    Object.create(null),
+    await resolveArgsAsync<A>((_args as A) || DEFAULT_OPTIONS, tokens, resolveOptions),
+    { tokens }
+  ) as AsyncParsedArgs<A>
+}
@@ -1,6 +1,6 @@
 import { parseArgs as parseArgsNode } from 'node:util'
 import { describe, expect, test } from 'vitest'
-import { parseArgs } from './parser.ts'
+import { ArgResponseFileError, expandResponseFiles, parseArgs, tokenize } from './parser.ts'
 
 describe('short options', () => {
   test.each(['-foo', '-xJAPAN', '-foo 1'])('%s', argv => {
@@ -52,6 +52,26 @@ describe('short options', () => {
     })
   })
 
+  test('value with hyphen: -a=-1 -bc=2', () => {
+    const tokens = parseArgs(['-a=-1', '-bc=2'])
+    expect(tokens).toEqual([
+      { kind: 'option', name: 'a', rawName: '-a', index: 0 },
+      { kind: 'option', name: '1', rawName: '-1', index: 0 },
+      { kind: 'positional', index: 1, value: 'bc=2' }
+    ])
+  })
+
+  test('value without option: -=x y', () => {
+    expect(parseArgs(['-=x', 'y'])).toEqual([
+      { kind: 'positional', index: 0, value: 'x' },
+      { kind: 'positional', index: 1, value: 'y' }
+    ])
+    expect(parseArgs(['-==', 'z'])).toEqual([
+      { kind: 'positional', index: 0, value: '=' },
+      { kind: 'positional', index: 1, value: 'z' }
+    ])
+  })
+
   test('value with equal compatible: -abc=1 2', () => {
     const args = ['-abc=1', '2']
     const { tokens: nodeTokens } = parseArgsNode({
@@ -155,3 +175,229 @@ test('option terminator', () => {
   const actualTokens = parseArgs(args)
   expect(actualTokens).toEqual(expectTokens)
 })
+
+describe('offsets', () => {
+  test('default', () => {
+    const tokens = parseArgs(['--foo', 'bar'])
+    expect(tokens[0]).not.toHaveProperty('start')
+    expect(tokens[1]).not.toHaveProperty('lineStart')
+  })
+
+  test('long options and positionals', () => {
+    const tokens = parseArgs(['--foo=bar', 'baz', '--', '-x'], { offsets: true })
+    expect(tokens).toEqual([
+      expect.objectContaining({ name: 'foo', start: 0, end: 9, lineStart: 0, lineEnd: 9 }),
+      expect.objectContaining({ value: 'baz', start: 0, end: 3, lineStart: 10, lineEnd: 13 }),
+      expect.objectContaining({
+        kind: 'option-terminator',
+        start: 0,
+        end: 2,
+        lineStart: 14,
+        lineEnd: 16
+      }),
+      expect.objectContaining({ value: '-x', start: 0, end: 2, lineStart: 17, lineEnd: 19 })
+    ])
+  })
+
+  test('short option group', () => {
+    const tokens = parseArgs(['x', '-abc=foo', 'y'], { offsets: true })
+    expect(tokens).toEqual([
+      expect.objectContaining({ value: 'x', start: 0, end: 1, lineStart: 0, lineEnd: 1 }),
+      expect.objectContaining({ name: 'a', index: 1, start: 0, end: 2, lineStart: 2, lineEnd: 4 }),
+      expect.objectContaining({ name: 'b', index: 1, start: 2, end: 3, lineStart: 4, lineEnd: 5 }),
+      expect.objectContaining({ name: 'c', index: 1, start: 3, end: 4, lineStart: 5, lineEnd: 6 }),
+      expect.objectContaining({
+        value: 'foo',
+        index: 1,
+        start: 5,
+        end: 8,
+        lineStart: 7,
+        lineEnd: 10
+      }),
+      expect.objectContaining({
+        value: 'y',
+        index: 2,
+        start: 0,
+        end: 1,
+        lineStart: 11,
+        lineEnd: 12
+      })
+    ])
+  })
+
+  test('short option with value', () => {
+    const tokens = parseArgs(['-f', 'bar', '-g=baz'], { offsets: true })
+    expect(tokens).toEqual([
+      expect.objectContaining({ name: 'f', index: 0, start: 0, end: 2, lineStart: 0, lineEnd: 2 }),
+      expect.objectContaining({
+        value: 'bar',
+        index: 1,
+        start: 0,
+        end: 3,
+        lineStart: 3,
+        lineEnd: 6
+      }),
+      expect.objectContaining({ name: 'g', index: 2, start: 0, end: 2, lineStart: 7, lineEnd: 9 }),
+      expect.objectContaining({
+        value: 'baz',
+        index: 2,
+        start: 3,
+        end: 6,
+        lineStart: 10,
+        lineEnd: 13
+      })
+    ])
+  })
+})
+
+describe('tokenize', () => {
+  test('same tokens as parseArgs', () => {
+    const args = ['-x', '--foo', '1', '-abc=2', '--bar=3', 'baz', '-a-b', 'qux', '--', '-y']
+    for (const options of [{}, { allowCompatible: true }, { offsets: true }]) {
+      expect([...tokenize(args, options)]).toEqual(parseArgs(args, options))
+    }
+  })
+
+  test('lazy', () => {
+    const args = ['--foo', 'bar', '--', '--baz']
+    const iterator = tokenize(args)
+    expect(iterator.next().value).toEqual(expect.objectContaining({ name: 'foo', index: 0 }))
+    expect(iterator.next().value).toEqual(expect.objectContaining({ value: 'bar', index: 1 }))
+    expect(iterator.next().value).toEqual({ kind: 'option-terminator', index: 2 })
+    expect(iterator.return()).toEqual({ done: true, value: undefined })
+  })
+
+  test('long arguments', () => {
+    const files = Array.from({ length: 50_000 }, (_, index) => `src/file-${index}.ts`)
+    const tokens = parseArgs(['--verbose', ...files])
+    expect(tokens.length).toBe(files.length + 1)
+    expect(tokens.at(-1)).toEqual({
+      kind: 'positional',
+      index: files.length,
+      value: 'src/file-49999.ts'
+    })
+  })
+})
+
+describe('response files', () => {
+  const files: Record<string, string> = {
+    'args.txt': `--foo "hello world" -x 'it''s'\n\n  --bar=1 \\\n  @nested.txt\n`,
+    'nested.txt': `last\\ arg "" "say \\"hi\\""`,
+    'cycle-a.txt': `--foo @cycle-b.txt`,
+    'cycle-b.txt': `@cycle-a.txt`,
+    'unterminated.txt': `--foo\n"bar`
+  }
+  const readResponseFile = (path: string) => files[path]
+
+  test('expand', () => {
+    const tokens = parseArgs(['-v', '@args.txt', 'baz'], { readResponseFile })
+    expect(tokens).toEqual([
+      { kind: 'option', name: 'v', rawName: '-v', index: 0 },
+      { kind: 'option', name: 'foo', rawName: '--foo', index: 1, file: 'args.txt', line: 1 },
+      { kind: 'positional', index: 2, value: 'hello world', file: 'args.txt', line: 1 },
+      { kind: 'option', name: 'x', rawName: '-x', index: 3, file: 'args.txt', line: 1 },
+      { kind: 'positional', index: 4, value: 'its', file: 'args.txt', line: 1 },
+      {
+        kind: 'option',
+        name: 'bar',
+        rawName: '--bar',
+        index: 5,
+        value: '1',
+        inlineValue: true,
+        file: 'args.txt',
+        line: 3
+      },
+      { kind: 'positional', index: 6, value: 'last arg', file: 'nested.txt', line: 1 },
+      { kind: 'positional', index: 7, value: '', file: 'nested.txt', line: 1 },
+      { kind: 'positional', index: 8, value: 'say "hi"', file: 'nested.txt', line: 1 },
+      { kind: 'positional', index: 9, value: 'baz' }
+    ])
+  })
+
+  test('reader receives the referencing file', () => {
+    const paths: [string, string | undefined][] = []
+    parseArgs(['@args.txt'], {
+      readResponseFile: (path, from) => {
+        paths.push([path, from])
+        return files[path]
+      }
+    })
+    expect(paths).toEqual([
+      ['args.txt', undefined],
+      ['nested.txt', 'args.txt']
+    ])
+  })
+
+  test('reader error', () => {
+    const cause = new Error(`ENOENT: no such file or directory, open 'missing.txt'`)
+    const read = (path: string) => {
+      if (path === 'missing.txt') {
+        throw cause
+      }
+      return `--foo\n@missing.txt`
+    }
+    let error: unknown
+    try {
+      parseArgs(['@args.txt'], { readResponseFile: read })
+    } catch (e) {
+      error = e
+    }
+    expect(error).toEqual(
+      new ArgResponseFileError(
+        `Cannot read response file 'missing.txt': ENOENT: no such file or directory, open 'missing.txt'`,
+        'missing.txt',
+        { line: 2, chain: ['args.txt', 'missing.txt'] }
+      )
+    )
+    expect((error as ArgResponseFileError).cause).toBe(cause)
+  })
+
+  test('expandResponseFiles', () => {
+    expect(expandResponseFiles(['-v', '@nested.txt', '--', '@args.txt'], readResponseFile)).toEqual(
+      ['-v', 'last arg', '', 'say "hi"', '--', '@args.txt']
+    )
+  })
+
+  test('not expanded after options terminator', () => {
+    const tokens = parseArgs(['--', '@args.txt'], { readResponseFile })
+    expect(tokens).toEqual([
+      { kind: 'option-terminator', index: 0 },
+      { kind: 'positional', index: 1, value: '@args.txt' }
+    ])
+  })
+
+  test('not expanded without reader', () => {
+    expect(parseArgs(['@args.txt'])).toEqual([{ kind: 'positional', index: 0, value: '@args.txt' }])
+  })
+
+  test('offsets', () => {
+    const tokens = parseArgs(['@nested.txt'], { readResponseFile, offsets: true })
+    expect(tokens[0]).toEqual(
+      expect.objectContaining({ value: 'last arg', start: 0, end: 8, lineStart: 0, lineEnd: 8 })
+    )
+    expect(tokens[2]).toEqual(
+      expect.objectContaining({ value: 'say "hi"', start: 0, end: 8, lineStart: 10, lineEnd: 18 })
+    )
+  })
+
+  test('cycle', () => {
+    const chain = ['cycle-a.txt', 'cycle-b.txt', 'cycle-a.txt']
+    expect(() => parseArgs(['@cycle-a.txt'], { readResponseFile })).toThrowError(
+      new ArgResponseFileError(
+        `Response file 'cycle-a.txt' is recursively referenced: cycle-a.txt -> cycle-b.txt -> cycle-a.txt`,
+        'cycle-a.txt',
+        { line: 1, chain }
+      )
+    )
+  })
+
+  test('unterminated quote', () => {
+    expect(() => parseArgs(['@unterminated.txt'], { readResponseFile })).toThrowError(
+      new ArgResponseFileError(
+        `Unterminated quote (") in response file 'unterminated.txt'`,
+        'unterminated.txt',
+        { line: 2 }
+      )
+    )
+  })
+})
@@ -13,6 +13,10 @@
  * @license MIT
  */
 
+import { ArgCommandLineError, scanCommandLine } from './command-line.ts'
+
+import type { CommandLineArg } from './command-line.ts'
+
 /**
  * Argument token Kind.
  *
@@ -51,12 +55,44 @@ export interface ArgToken {
    * Inline value, e.g. `--foo=bar` => `true`, `-x=bar` => `true`.
    */
   inlineValue?: boolean
+  /**
+   * Start offset of the token in the argument of `index`, e.g. `-abc` => `-b` start is `2`.
+   * Only available with the `offsets` option.
+   */
+  start?: number
+  /**
+   * End offset (exclusive) of the token in the argument of `index`, e.g. `-abc` => `-b` end is `3`.
+   * Only available with the `offsets` option.
+   */
+  end?: number
+  /**
+   * Start offset of the token in the command line, which is the arguments joined with a space.
+   * Only available with the `offsets` option.
+   */
+  lineStart?: number
+  /**
+   * End offset (exclusive) of the token in the command line, which is the arguments joined with a space.
+   * Only available with the `offsets` option.
+   */
+  lineEnd?: number
+  /**
+   * Response file path that the token came from, e.g. `@args.txt` => `args.txt`.
+   * Only available for the arguments expanded from the response files with the `readResponseFile` option.
+   */
+  file?: string
+  /**
+   * Line number (1-based) in the response file that the token came from.
+   * Only available for the arguments expanded from the response files with the `readResponseFile` option.
+   */
+  line?: number
 }
 
 const HYPHEN_CHAR = '-'
 const HYPHEN_CODE = HYPHEN_CHAR.codePointAt(0)!
 const EQUAL_CHAR = '='
 const EQUAL_CODE = EQUAL_CHAR.codePointAt(0)!
+const AT_CODE = '@'.codePointAt(0)!
+const NEWLINE_CODE = '\n'.codePointAt(0)!
 const TERMINATOR = '--'
 const SHORT_OPTION_PREFIX = HYPHEN_CHAR
 const LONG_OPTION_PREFIX = '--'
@@ -71,6 +107,70 @@ export interface ParserOptions {
    * @default false
    */
   allowCompatible?: boolean
+  /**
+   * Whether to record the `start`/`end` offsets of each token in the argument, and the `lineStart`/`lineEnd` offsets in the command line.
+   *
+   * For expanded short option groups, e.g. `-abc=foo`, the offsets point at each member (`-a`, `b`, `c`) and the value (`foo`).
+   *
+   * @default false
+   */
+  offsets?: boolean
+  /**
+   * A reader of the response files, which enables expanding `@file` arguments (e.g. `@args.txt`) into the arguments in the file.
+   *
+   * The file content is split with the `posix` dialect of {@link splitCommandLine}, and may reference other response files. The arguments after the options terminator (`--`) are not expanded.
+   *
+   * The `index` of the tokens refers to the expanded arguments, and the tokens expanded from the response files have `file` and `line`.
+   *
+   * @default undefined
+   */
+  readResponseFile?: ResponseFileReader
+}
+
+/**
+ * A reader of the response file.
+ *
+ * @param path - The response file path, e.g. `@args.txt` => `args.txt`
+ * @param from - The response file path that references `path`, or `undefined` if `path` is in the command line arguments. Use it to resolve the relative path of the nested response files
+ * @returns The content of the response file
+ */
+export type ResponseFileReader = (path: string, from: string | undefined) => string
+
+/**
+ * An error that is thrown when the response files can not be expanded.
+ */
+export class ArgResponseFileError extends Error {
+  /**
+   * The response file path.
+   */
+  readonly file: string
+  /**
+   * Line number (1-based) in the response file, e.g. the line of the unterminated quote.
+   */
+  readonly line?: number
+  /**
+   * The chain of the response files that are recursively referenced.
+   */
+  readonly chain?: string[]
+
+  /**
+   * Create an `ArgResponseFileError` instance.
+   *
+   * @param message - the error message
+   * @param file - the response file path
+   * @param options - the line number, the chain of the response files, and the cause
+   */
+  constructor(
+    message: string,
+    file: string,
+    options: { line?: number; chain?: string[]; cause?: unknown } = {}
+  ) {
+    super(message, { cause: options.cause })
+    this.name = 'ArgResponseFileError'
+    this.file = file
+    this.line = options.line
+    this.chain = options.chain
+  }
 }
 
 /**
@@ -92,123 +192,156 @@ export interface ParserOptions {
  * ```
  */
 export function parseArgs(args: string[], options: ParserOptions = {}): ArgToken[] {
-  const { allowCompatible = false } = options
-
   const tokens: ArgToken[] = []
-  const remainings = [...args]
-  let index = -1
-  let groupCount = 0
-  let hasShortValueSeparator = false
+  for (const token of tokenize(args, options)) {
+    tokens.push(token)
+  }
+  return tokens
+}
 
-  while (remainings.length > 0) {
-    const arg = remainings.shift()
+/**
+ * Tokenize command line arguments lazily.
+ *
+ * This is the generator version of {@link parseArgs}, which yields the same tokens one by one without materializing the token array.
+ *
+ * @param args - command line arguments
+ * @param options - parse options, about details see {@link ParserOptions}
+ * @yields {ArgToken} Argument tokens.
+ *
+ * @example
+ * ```js
+ * import { tokenize } from 'args-tokens'
+ *
+ * for (const token of tokenize(['--foo', 'bar', '-x', '--bar=baz'])) {
+ *   if (token.kind === 'option-terminator') {
+ *     break
+ *   }
+ *   console.log('token:', token)
+ * }
+ * ```
+ */
+export function* tokenize(
+  args: string[],
+  options: ParserOptions = {}
+): Generator<ArgToken, void, undefined> {
+  const { allowCompatible = false, offsets = false, readResponseFile } = options
 
-    if (arg == undefined) {
-      break
+  let sources: (ArgSource | undefined)[] = []
+  if (readResponseFile) {
+    ;({ args, sources } = expandResponseFileArgs(args, readResponseFile))
+  }
+  const lineStarts = offsets ? getLineStarts(args) : []
+
+  function locate(token: ArgToken, [start, end]: [start: number, end: number]): ArgToken {
+    const source = sources[token.index]
+    if (source) {
+      token = { ...token, file: source.file, line: source.line }
     }
+    return offsets
+      ? {
+          ...token,
+          start,
+          end,
+          lineStart: lineStarts[token.index] + start,
+          lineEnd: lineStarts[token.index] + end
+        }
+      : token
+  }
+
+  // members of an expanded short option group, which are tokenized before the next argument
+  const expanded: { arg: string; range: [start: number, end: number] }[] = []
+  let hasShortValueSeparator = false
+  let index = -1
+  let argIndex = 0
 
-    const nextArg = remainings[0]
-    if (groupCount > 0) {
-      groupCount--
+  while (expanded.length > 0 || argIndex < args.length) {
+    const member = expanded.shift()
+    let arg: string
+    let range: [start: number, end: number]
+    if (member) {
+      ;({ arg, range } = member)
     } else {
+      arg = args[argIndex++]
+      range = [0, arg.length]
       index++
     }
 
     // check if `arg` is an options terminator.
     // guideline 10 in https://pubs.opengroup.org/onlinepubs/9699919799/basedefs/V1_chap12.html
     if (arg === TERMINATOR) {
-      tokens.push({
-        kind: 'option-terminator',
-        index
-      })
-      const mapped = remainings.map(arg => {
-        return { kind: 'positional', index: ++index, value: arg }
-      }) satisfies ArgToken[]
-      tokens.push(...mapped)
-      break
+      yield locate({ kind: 'option-terminator', index }, range)
+      for (const { arg } of expanded) {
+        yield locate({ kind: 'positional', index: ++index, value: arg }, [0, arg.length])
+      }
+      for (; argIndex < args.length; argIndex++) {
+        const arg = args[argIndex]
+        yield locate({ kind: 'positional', index: ++index, value: arg }, [0, arg.length])
+      }
+      return
     }
 
     if (isShortOption(arg)) {
-      const shortOption = arg.charAt(1)
-      let value: string | undefined
-      let inlineValue: boolean | undefined
-      if (groupCount) {
-        // e.g. `-abc`
-        tokens.push({
+      // e.g. `-a`
+      yield locate(
+        {
           kind: 'option',
-          name: shortOption,
+          name: arg.charAt(1),
           rawName: arg,
           index,
-          value,
-          inlineValue
-        })
-        if (groupCount === 1 && hasOptionValue(nextArg)) {
-          value = remainings.shift()
-          if (hasShortValueSeparator) {
-            inlineValue = true
-            hasShortValueSeparator = false
-          }
-          tokens.push({
-            kind: 'option',
-            index,
-            value,
-            inlineValue
-          })
+          value: undefined,
+          inlineValue: undefined
+        },
+        range
+      )
+      // e.g. `-abc=1`, the last member of the group takes the value
+      if (expanded.length === 1 && hasOptionValue(expanded[0].arg)) {
+        const { arg: value, range } = expanded.shift()!
+        let inlineValue: boolean | undefined
+        if (hasShortValueSeparator) {
+          inlineValue = true
+          hasShortValueSeparator = false
         }
-      } else {
-        // e.g. `-a`
-        tokens.push({
-          kind: 'option',
-          name: shortOption,
-          rawName: arg,
-          index,
-          value,
-          inlineValue
-        })
-      }
-
-      if (value != null) {
-        ++index
+        yield locate({ kind: 'option', index, value, inlineValue }, range)
       }
       continue
     }
 
     if (isShortOptionGroup(arg)) {
-      // expend short option group (e.g. `-abc` => `-a -b -c`, `-f=bar` => `-f bar`)
-      const expanded = []
+      // expand short option group (e.g. `-abc` => `-a -b -c`, `-f=bar` => `-f bar`)
       let shortValue = ''
       for (let i = 1; i < arg.length; i++) {
         const shortableOption = arg.charAt(i)
         if (hasShortValueSeparator) {
           shortValue += shortableOption
+        } else if (!allowCompatible && shortableOption.codePointAt(0) === EQUAL_CODE) {
+          hasShortValueSeparator = true
         } else {
-          if (!allowCompatible && shortableOption.codePointAt(0) === EQUAL_CODE) {
-            hasShortValueSeparator = true
-          } else {
-            expanded.push(`${SHORT_OPTION_PREFIX}${shortableOption}`)
-          }
+          // the first member includes the hyphen
+          expanded.push({
+            arg: `${SHORT_OPTION_PREFIX}${shortableOption}`,
+            range: [i === 1 ? 0 : i, i + 1]
+          })
         }
       }
       if (shortValue) {
-        expanded.push(shortValue)
+        expanded.push({ arg: shortValue, range: [arg.length - shortValue.length, arg.length] })
       }
-      remainings.unshift(...expanded)
-      groupCount = expanded.length
       continue
     }
 
     if (isLongOption(arg)) {
       // e.g. `--foo`
-      const longOption = arg.slice(2)
-      tokens.push({
-        kind: 'option',
-        name: longOption,
-        rawName: arg,
-        index,
-        value: undefined,
-        inlineValue: undefined
-      })
-
+      yield locate(
+        {
+          kind: 'option',
+          name: arg.slice(2),
+          rawName: arg,
+          index,
+          value: undefined,
+          inlineValue: undefined
+        },
+        range
+      )
       continue
     }
 
@@ -216,26 +349,199 @@ export function parseArgs(args: string[], options: ParserOptions = {}): ArgToken
       // e.g. `--foo=bar`
       const equalIndex = arg.indexOf(EQUAL_CHAR)
       const longOption = arg.slice(2, equalIndex)
-      const value = arg.slice(equalIndex + 1)
-      tokens.push({
-        kind: 'option',
-        name: longOption,
-        rawName: `${LONG_OPTION_PREFIX}${longOption}`,
-        index,
-        value,
-        inlineValue: true
-      })
+      yield locate(
+        {
+          kind: 'option',
+          name: longOption,
+          rawName: `${LONG_OPTION_PREFIX}${longOption}`,
+          index,
+          value: arg.slice(equalIndex + 1),
+          inlineValue: true
+        },
+        range
+      )
       continue
     }
 
-    tokens.push({
-      kind: 'positional',
-      index,
-      value: arg
-    })
+    yield locate(
+      {
+        kind: 'positional',
+        index,
+        value: arg
+      },
+      range
+    )
   }
+}
 
-  return tokens
+/**
+ * Get the start offsets of the arguments in the command line, which is the arguments joined with a space.
+ *
+ * @param args - command line arguments
+ * @returns The start offsets of the arguments
+ */
+export function getLineStarts(args: string[]): number[] {
+  const starts: number[] = []
+  let offset = 0
+  for (const arg of args) {
+    starts.push(offset)
+    offset += arg.length + 1
+  }
+  return starts
+}
+
+function hasOptionValue(value: string | undefined): boolean {
+  return !(value == null) && value.codePointAt(0) !== HYPHEN_CODE
+}
+
+/**
+ * Source of the argument, which is expanded from a response file.
+ */
+interface ArgSource {
+  file: string
+  line: number
+}
+
+/**
+ * Expand the response files (e.g. `@args.txt`) in the command line arguments, in the same way as the `readResponseFile` option of {@link parseArgs}.
+ *
+ * The `index` of the tokens parsed with the `readResponseFile` option refers to the expanded arguments,
+ * so pass the expanded arguments to {@link formatDiagnostics} to underline the tokens in the command line.
+ *
+ * @example
+ * ```js
+ * import { readFileSync } from 'node:fs'
+ * import { expandResponseFiles, formatDiagnostics, parseArgs, resolveArgs } from 'args-tokens'
+ *
+ * const readResponseFile = path => readFileSync(path, 'utf8')
+ * const argv = expandResponseFiles(process.argv.slice(2), readResponseFile)
+ * const tokens = parseArgs(argv, { offsets: true })
+ * const { error } = resolveArgs({ port: { type: 'number' } }, tokens)
+ * console.error(formatDiagnostics(argv, tokens, error))
+ * ```
+ *
+ * @param args - command line arguments
+ * @param readResponseFile - A reader of the response file, see {@link ResponseFileReader}
+ * @returns The expanded arguments.
+ * @throws {ArgResponseFileError} if the response files can not be read or expanded.
+ */
+export function expandResponseFiles(
+  args: string[],
+  readResponseFile: ResponseFileReader
+): string[] {
+  return expandResponseFileArgs(args, readResponseFile).args
+}
+
+/**
+ * Expand the response files in the command line arguments, with the sources of the expanded arguments.
+ *
+ * The arguments after the options terminator (`--`) are not expanded.
+ *
+ * @param args - command line arguments
+ * @param readResponseFile - A reader of the response file
+ * @returns The expanded arguments, and their sources
+ */
+function expandResponseFileArgs(
+  args: string[],
+  readResponseFile: ResponseFileReader
+): { args: string[]; sources: (ArgSource | undefined)[] } {
+  const expandedArgs: string[] = []
+  const sources: (ArgSource | undefined)[] = []
+  // the response files that are currently being expanded, for cycle detection
+  const chain: string[] = []
+  let terminated = false
+
+  function expand(arg: string, source: ArgSource | undefined): void {
+    if (terminated || !isResponseFile(arg)) {
+      terminated ||= arg === TERMINATOR
+      expandedArgs.push(arg)
+      sources.push(source)
+      return
+    }
+
+    const file = arg.slice(1)
+    if (chain.includes(file)) {
+      throw new ArgResponseFileError(
+        `Response file '${file}' is recursively referenced: ${[...chain, file].join(' -> ')}`,
+        file,
+        { line: source?.line, chain: [...chain, file] }
+      )
+    }
+
+    let content: string
+    try {
+      content = readResponseFile(file, source?.file)
+    } catch (error) {
+      throw new ArgResponseFileError(
+        `Cannot read response file '${file}': ${error instanceof Error ? error.message : String(error)}`,
+        file,
+        { line: source?.line, chain: [...chain, file], cause: error }
+      )
+    }
+    chain.push(file)
+    for (const entry of splitResponseFile(content, file)) {
+      expand(entry.value, { file, line: entry.line })
+    }
+    chain.pop()
+  }
+
+  for (const arg of args) {
+    expand(arg, undefined)
+  }
+
+  return { args: expandedArgs, sources }
+}
+
+/**
+ * Check if `arg` is a response file (e.g. `@args.txt`).
+ *
+ * @param arg - An argument to check
+ * @returns Whether `arg` is a response file.
+ */
+export function isResponseFile(arg: string): boolean {
+  return arg.length > 1 && arg.codePointAt(0) === AT_CODE
+}
+
+/**
+ * Split the content of the response file into arguments with the `posix` dialect of {@link splitCommandLine}.
+ *
+ * @param content - The content of the response file
+ * @param file - The response file path, for error reporting
+ * @returns The arguments and their line numbers (1-based)
+ */
+function splitResponseFile(content: string, file: string): { value: string; line: number }[] {
+  const getLine = (offset: number, from = 0, line = 1) => {
+    for (let i = from; i < offset; i++) {
+      if (content.charCodeAt(i) === NEWLINE_CODE) {
+        line++
+      }
+    }
+    return line
+  }
+
+  let args: CommandLineArg[]
+  try {
+    args = scanCommandLine(content, 'posix')
+  } catch (error) {
+    if (error instanceof ArgCommandLineError) {
+      throw new ArgResponseFileError(
+        `Unterminated quote (${error.quote}) in response file '${file}'`,
+        file,
+        { line: getLine(error.start), cause: error }
+      )
+    }
+    throw error
+  }
+
+  const entries: { value: string; line: number }[] = []
+  let offset = 0
+  let line = 1
+  for (const arg of args) {
+    line = getLine(arg.start, offset, line)
+    offset = arg.start
+    entries.push({ value: arg.value, line })
+  }
+  return entries
 }
 
 /**
@@ -301,13 +607,3 @@ function isLongOptionAndValue(arg: string) {
 export function hasLongOptionPrefix(arg: string): boolean {
   return arg.startsWith(LONG_OPTION_PREFIX) && arg.length > 2
 }
-
-/**
- * Check if a `value` is an option value.
- *
- * @param value - A value to check
- * @returns Whether a `value` is an option value.
- */
-function hasOptionValue(value: string | undefined): boolean {
-  return !(value == null) && value.codePointAt(0) !== HYPHEN_CODE
-}
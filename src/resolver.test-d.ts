@@ -4,11 +4,14 @@ import { ArgsValidationError, ArgsValidationErrorKeys, isArgsValidationError } f
 
 import type {
   ArgExplicitlyProvided,
+  Args,
   ArgSchema,
   ArgValues,
   ArgsValidationErrorCode,
+  AsyncArgValues,
   ExtractOptionValue,
   FilterArgs,
+  ResolveArgs,
   ResolveArgValues
 } from './resolver.ts'
 
@@ -65,6 +68,44 @@ test('ExtractOptionValue', () => {
     }>
   >().toEqualTypeOf<boolean[]>()
 
+  // count type
+  expectTypeOf<
+    ExtractOptionValue<{
+      type: 'count'
+      short: 'v'
+      negatable: true
+    }>
+  >().toEqualTypeOf<number>()
+
+  // map type
+  expectTypeOf<
+    ExtractOptionValue<{
+      type: 'map'
+      short: 'D'
+    }>
+  >().toEqualTypeOf<Record<string, string>>()
+  expectTypeOf<
+    ExtractOptionValue<{
+      type: 'map'
+      parse: (value: string) => [string, number]
+    }>
+  >().toEqualTypeOf<Record<string, number>>()
+
+  // nargs
+  expectTypeOf<
+    ExtractOptionValue<{
+      type: 'string'
+      nargs: '+'
+    }>
+  >().toEqualTypeOf<string[]>()
+  expectTypeOf<
+    ExtractOptionValue<{
+      type: 'number'
+      nargs: 2
+      multiple: true
+    }>
+  >().toEqualTypeOf<number[]>()
+
   // number type
   expectTypeOf<
     ExtractOptionValue<{
@@ -432,6 +473,11 @@ test('ArgValues', () => {
       short: 'l'
       choices: ['debug', 'info', 'warn', 'error']
     }
+    verbose: {
+      type: 'count'
+      short: 'V'
+      default: 0
+    }
     order: {
       type: 'positional'
       short: 'o'
@@ -462,6 +508,7 @@ test('ArgValues', () => {
     host: string
     define?: string[]
     log?: 'debug' | 'info' | 'warn' | 'error'
+    verbose: number
     order: string
     csv?: string[]
     query?: string
@@ -505,3 +552,68 @@ test('ArgExplicitlyProvided', () => {
     custom: boolean
   }>()
 })
+
+test('ResolveArgs validate', () => {
+  type Args = {
+    min: {
+      type: 'number'
+      default: 0
+    }
+    format: {
+      type: 'enum'
+      choices: ['text', 'file']
+    }
+  }
+
+  expectTypeOf<NonNullable<ResolveArgs<Args>['validate']>>().parameters.toEqualTypeOf<
+    [values: { min: number; format?: 'text' | 'file' }, explicit: ArgExplicitlyProvided<Args>]
+  >()
+})
+
+test('AsyncArgValues', () => {
+  type Args = {
+    config: {
+      type: 'custom'
+      required: true
+      parse: (value: string) => Promise<{ path: string }>
+    }
+    hosts: {
+      type: 'string'
+      multiple: true
+      parse: (value: string) => Promise<string>
+    }
+    port: {
+      type: 'number'
+      default: 8080
+    }
+  }
+
+  expectTypeOf<AsyncArgValues<Args>>().toEqualTypeOf<{
+    config: { path: string }
+    hosts?: string[]
+    port: number
+  }>()
+})
+
+test('ArgValues with non-primitive and factory defaults', () => {
+  const args = {
+    input: {
+      type: 'string'
+    },
+    out: {
+      type: 'string',
+      default: (values: Record<string, unknown>) => `${values.input as string}.js`
+    },
+    tags: {
+      type: 'string',
+      multiple: true,
+      default: ['latest']
+    }
+  } as const satisfies Args
+
+  expectTypeOf<ArgValues<typeof args>>().toEqualTypeOf<{
+    input?: string | undefined
+    out: string
+    tags: string[]
+  }>()
+})
@@ -8,10 +8,11 @@ import {
   ArgsValidationError,
   ArgsValidationErrorKeys,
   isArgsValidationError,
-  resolveArgs
+  resolveArgs,
+  resolveArgsAsync
 } from './resolver.ts'
 
-import type { Args } from './resolver.ts'
+import type { ArgExplicitlyProvided, ArgGroup, Args, ArgValues } from './resolver.ts'
 
 const args = {
   help: {
@@ -498,7 +499,8 @@ describe('structured validation errors', () => {
     expect(validationError.values).toEqual({
       displayName: "'counts'",
       name: 'counts',
-      reason: 'Not a count'
+      reason: 'Not a count',
+      tokenIndex: 1
     })
     expect(validationError.cause).toBe(cause)
   })
@@ -630,6 +632,33 @@ describe('enum option', () => {
     })
   })
 
+  test('invalid value with suggestions', () => {
+    const argv = ['--log=wran']
+    const tokens = parseArgs(argv)
+    const { error } = resolveArgs(
+      {
+        log: {
+          type: 'enum',
+          choices: ['debug', 'info', 'warn', 'error']
+        }
+      },
+      tokens
+    )
+    expect(error?.errors.length).toBe(1)
+    expect((error?.errors[0] as ArgResolveError).message).toEqual(
+      `Optional argument '--log' should be chosen from 'enum' ["debug", "info", "warn", "error"] values. Did you mean 'warn'?`
+    )
+    expect((error?.errors[0] as ArgsValidationError).values).toEqual({
+      displayName: "'--log'",
+      name: 'log',
+      expected: 'enum',
+      choices: '"debug", "info", "warn", "error"',
+      choiceValues: ['debug', 'info', 'warn', 'error'],
+      actual: 'wran',
+      suggestions: ['warn']
+    })
+  })
+
   test('required', () => {
     const argv = ['dev']
     const tokens = parseArgs(argv)
@@ -1996,6 +2025,90 @@ describe('explicit provision detection', () => {
   })
 })
 
+describe('value sources', () => {
+  const args = {
+    command: {
+      type: 'positional'
+    },
+    files: {
+      type: 'positional',
+      multiple: true
+    },
+    verbose: {
+      type: 'boolean',
+      short: 'v'
+    },
+    color: {
+      type: 'boolean',
+      negatable: true
+    },
+    tag: {
+      type: 'string',
+      short: 't',
+      multiple: true
+    },
+    port: {
+      type: 'number',
+      env: 'PORT',
+      default: 8080
+    },
+    host: {
+      type: 'string',
+      default: 'localhost'
+    },
+    mode: {
+      type: 'string'
+    }
+  } as const satisfies Args
+
+  test('reports where each value comes from', () => {
+    const tokens = parseArgs(['build', '-v', '--tag', 'a', 'src', '-t=b', '--no-color', 'lib'])
+    const { sources } = resolveArgs(args, tokens, { env: { PORT: '3000' } })
+
+    expect(sources).toEqual({
+      command: { kind: 'cli', indices: [0] },
+      files: { kind: 'cli', indices: [4, 7] },
+      verbose: { kind: 'cli', indices: [1], inputName: '-v' },
+      color: { kind: 'cli', indices: [6], inputName: '--no-color' },
+      tag: { kind: 'cli', indices: [2, 5], inputName: '-t' },
+      port: { kind: 'env', env: 'PORT' },
+      host: { kind: 'default' }
+    })
+  })
+
+  test('reports the last actual input name', () => {
+    const tokens = parseArgs(['build', '--verbose', '-v'])
+    const { sources } = resolveArgs(args, tokens)
+
+    expect(sources.verbose).toEqual({ kind: 'cli', indices: [1, 2], inputName: '-v' })
+  })
+
+  test('falls back to default source when value is invalid', () => {
+    const tokens = parseArgs(['build', '--port', 'abc'])
+    const { values, explicit, sources, error } = resolveArgs(args, tokens)
+
+    expect(error?.errors.length).toBe(1)
+    expect(values.port).toBe(8080)
+    expect(explicit.port).toBe(true)
+    expect(sources.port).toEqual({ kind: 'default' })
+  })
+
+  test('positional default source', () => {
+    const tokens = parseArgs([])
+    const { sources } = resolveArgs(
+      {
+        command: {
+          type: 'positional',
+          default: 'help'
+        }
+      },
+      tokens
+    )
+
+    expect(sources).toEqual({ command: { kind: 'default' } })
+  })
+})
+
 describe('conflicts', () => {
   test('detects conflict when both options are provided', () => {
     const args = {
@@ -2018,8 +2131,13 @@ describe('conflicts', () => {
     expect(error?.errors[0]).toBeInstanceOf(ArgResolveError)
     expect(error?.errors[0]).toBeInstanceOf(ArgsValidationError)
     expect((error?.errors[0] as ArgResolveError).type).toBe('conflict')
-    expect((error?.errors[0] as ArgsValidationError).code).toBeUndefined()
-    expect((error?.errors[0] as ArgsValidationError).values).toEqual({})
+    expect((error?.errors[0] as ArgsValidationError).code).toBe(ArgsValidationErrorKeys.conflict)
+    expect((error?.errors[0] as ArgsValidationError).values).toEqual({
+      displayName: "'--summer'",
+      name: 'summer',
+      conflictingDisplayName: "'--autumn'",
+      conflicting: 'autumn'
+    })
     expect((error?.errors[0] as ArgResolveError).message).toBe(
       "Optional argument '--summer' conflicts with '--autumn'"
     )
@@ -2122,13 +2240,13 @@ describe('conflicts', () => {
     const { error } = resolveArgs(args, tokens)
 
     expect(error).toBeDefined()
-    expect(error?.errors.length).toBe(1)
-    expect((error?.errors[0] as ArgResolveError).message).toBe(
-      "Optional argument '--summer' conflicts with '--autumn'"
-    )
+    expect(error?.errors.map((e: Error) => e.message)).toEqual([
+      "Optional argument '--summer' conflicts with '--autumn'",
+      "Optional argument '--autumn' conflicts with '--winter'"
+    ])
   })
 
-  test('returns only first conflict error (fail-fast behavior)', () => {
+  test('reports every conflicting pair once', () => {
     const args = {
       a: {
         type: 'boolean',
@@ -2149,10 +2267,18 @@ describe('conflicts', () => {
     const { error } = resolveArgs(args, tokens)
 
     expect(error).toBeDefined()
-    expect(error?.errors.length).toBe(1)
-    expect((error?.errors[0] as ArgResolveError).message).toBe(
-      "Optional argument '--a' conflicts with '--b'"
-    )
+    expect(error?.errors.map((e: Error) => e.message)).toEqual([
+      "Optional argument '--a' conflicts with '--b'",
+      "Optional argument '--a' conflicts with '--c'",
+      "Optional argument '--b' conflicts with '--c'"
+    ])
+    expect(
+      (error?.errors as ArgResolveError[]).map(e => [e.values.name, e.values.conflicting])
+    ).toEqual([
+      ['a', 'b'],
+      ['a', 'c'],
+      ['b', 'c']
+    ])
   })
 
   test('detects conflict with short option aliases', () => {
@@ -2317,173 +2443,1364 @@ describe('conflicts', () => {
   })
 })
 
-describe('schema.parse priority', () => {
-  test('string type with parse function', () => {
-    const argv = ['--port', '8080']
-    const tokens = parseArgs(argv)
-    const { values } = resolveArgs(
-      {
-        port: {
-          type: 'string',
-          parse: (v: string) => parseInt(v, 10)
-        }
-      },
-      tokens
-    )
-    expect(values.port).toBe(8080)
+describe('dependencies', () => {
+  const args = {
+    tlsKey: {
+      type: 'string',
+      toKebab: true,
+      short: 'k',
+      requires: ['tlsCert', 'host']
+    },
+    tlsCert: {
+      type: 'string',
+      toKebab: true,
+      env: 'TLS_CERT'
+    },
+    host: {
+      type: 'string',
+      default: 'localhost'
+    }
+  } as const satisfies Args
+
+  test('passes when dependencies are provided', () => {
+    const tokens = parseArgs([
+      '--tls-key',
+      'key.pem',
+      '--tls-cert',
+      'cert.pem',
+      '--host',
+      'example.com'
+    ])
+    const { error } = resolveArgs(args, tokens)
+
+    expect(error).toBeUndefined()
   })
 
-  test('boolean type with parse function', () => {
-    const argv = ['--verbose']
-    const tokens = parseArgs(argv)
-    const { values } = resolveArgs(
-      {
-        verbose: {
-          type: 'boolean',
-          parse: (v: string) => v === 'true'
-        }
-      },
-      tokens
-    )
-    expect(values.verbose).toBe(true)
+  test('passes when the option is not provided', () => {
+    const tokens = parseArgs([])
+    const { error } = resolveArgs(args, tokens)
+
+    expect(error).toBeUndefined()
   })
 
-  test('boolean type with parse function and negation', () => {
-    const argv = ['--no-verbose']
-    const tokens = parseArgs(argv)
-    const { values } = resolveArgs(
-      {
-        verbose: {
-          type: 'boolean',
-          negatable: true,
-          parse: (v: string) => v === 'true'
-        }
-      },
-      tokens
-    )
-    expect(values.verbose).toBe(false)
+  test('reports every missing dependency', () => {
+    const tokens = parseArgs(['-k', 'key.pem'])
+    const { values, error } = resolveArgs(args, tokens)
+
+    expect(values).toEqual({ tlsKey: 'key.pem', host: 'localhost' })
+    expect(error?.errors.length).toBe(2)
+    const [cert, host] = error?.errors as ArgResolveError[]
+    expect(cert).toBeInstanceOf(ArgResolveError)
+    expect(cert.type).toBe('dependency')
+    expect(cert.name).toBe('tlsKey')
+    expect(cert.message).toBe("Optional argument '-k' requires '--tls-cert'")
+    expect(cert.code).toBe(ArgsValidationErrorKeys.missingDependency)
+    expect(cert.values).toEqual({
+      displayName: "'--tls-key' or '-k'",
+      name: 'tlsKey',
+      dependencyDisplayName: "'--tls-cert'",
+      dependency: 'tlsCert'
+    })
+    // default values do not satisfy dependencies
+    expect(host.message).toBe("Optional argument '-k' requires '--host'")
   })
 
-  test('positional with parse function', () => {
-    const argv = ['42']
-    const tokens = parseArgs(argv)
-    const { values } = resolveArgs(
-      {
-        count: {
-          type: 'positional',
-          parse: (v: string) => parseInt(v, 10)
-        }
-      },
-      tokens
-    )
-    expect(values.count).toBe(42)
+  test('dependencies can be provided from environment variables', () => {
+    const tokens = parseArgs(['--tls-key', 'key.pem', '--host', 'example.com'])
+    const { error } = resolveArgs(args, tokens, { env: { TLS_CERT: 'cert.pem' } })
+
+    expect(error).toBeUndefined()
   })
 
-  test('multiple positional with parse function', () => {
-    const argv = ['1', '2', '3']
-    const tokens = parseArgs(argv)
-    const { values } = resolveArgs(
-      {
-        numbers: {
-          type: 'positional',
-          multiple: true,
-          parse: (v: string) => parseInt(v, 10)
-        }
-      },
-      tokens
+  test('checks options provided from configuration layers', () => {
+    const tokens = parseArgs(['--host', 'example.com'])
+    const { error } = resolveArgs(args, tokens, {
+      config: [{ name: 'app.json', values: { tlsKey: 'key.pem' } }]
+    })
+
+    expect(error?.errors.length).toBe(1)
+    const dependency = error?.errors[0] as ArgResolveError
+    expect(dependency.message).toBe(
+      "Configuration key 'tlsKey' in 'app.json' requires '--tls-cert'"
     )
-    expect(values.numbers).toEqual([1, 2, 3])
+    expect(dependency.values).toEqual({
+      displayName: "'--tls-key' or '-k'",
+      name: 'tlsKey',
+      dependencyDisplayName: "'--tls-cert'",
+      dependency: 'tlsCert',
+      layer: 'app.json'
+    })
   })
+})
 
-  test('positional parse error handling', () => {
-    const argv = ['not-a-number']
-    const tokens = parseArgs(argv)
-    const { error } = resolveArgs(
-      {
-        count: {
-          type: 'positional',
-          parse: (v: string) => {
-            const n = parseInt(v, 10)
-            if (isNaN(n)) throw new Error('Expected integer')
-            return n
-          }
-        }
-      },
-      tokens
-    )
+describe('groups', () => {
+  const args = {
+    json: {
+      type: 'boolean'
+    },
+    yamlFormat: {
+      type: 'boolean',
+      toKebab: true
+    },
+    toml: {
+      type: 'boolean',
+      env: 'TOML'
+    },
+    file: {
+      type: 'positional',
+      required: false
+    },
+    stdin: {
+      type: 'boolean',
+      default: false
+    }
+  } as const satisfies Args
+
+  test('at most one', () => {
+    const groups: ArgGroup[] = [{ type: 'at-most-one', keys: ['json', 'yamlFormat', 'toml'] }]
+
+    expect(resolveArgs(args, parseArgs([]), { groups }).error).toBeUndefined()
+    expect(resolveArgs(args, parseArgs(['--json']), { groups }).error).toBeUndefined()
+
+    const { error } = resolveArgs(args, parseArgs(['--json', '--yaml-format']), {
+      groups,
+      env: { TOML: '1' }
+    })
     expect(error?.errors.length).toBe(1)
-    expect((error?.errors[0] as Error).message).toBe('Expected integer')
+    const conflict = error?.errors[0] as ArgResolveError
+    expect(conflict.message).toBe(
+      "Only one of '--json', '--yaml-format' or '--toml' can be provided, but got '--json', '--yaml-format' and environment variable 'TOML'"
+    )
+    expect(conflict.name).toBe('json')
+    expect(conflict.type).toBe('conflict')
+    expect(conflict.code).toBe(ArgsValidationErrorKeys.groupConflict)
+    expect(conflict.values).toEqual({
+      group: 'at-most-one',
+      names: ['json', 'yamlFormat', 'toml'],
+      displayNames: ["'--json'", "'--yaml-format'", "'--toml'"],
+      provided: ['json', 'yamlFormat', 'toml'],
+      providedDisplayNames: ["'--json'", "'--yaml-format'", "'--toml'"],
+      envs: { toml: 'TOML' }
+    })
   })
 
-  test('analyze phase: boolean followed by positional', () => {
-    const argv = ['--verbose', 'foo', '--port', '8080']
-    const tokens = parseArgs(argv)
-    const { values, positionals } = resolveArgs(
-      {
-        verbose: {
-          type: 'boolean'
-        },
-        port: {
-          type: 'number',
-          short: 'p'
-        }
-      },
-      tokens
-    )
-    expect(values.verbose).toBe(true)
-    expect(values.port).toBe(8080)
-    expect(positionals).toEqual(['foo'])
+  test('at least one', () => {
+    const groups: ArgGroup[] = [{ type: 'at-least-one', keys: ['file', 'stdin'] }]
+
+    expect(resolveArgs(args, parseArgs(['input.txt']), { groups }).error).toBeUndefined()
+    expect(resolveArgs(args, parseArgs(['input.txt', '--stdin']), { groups }).error).toBeUndefined()
+
+    // default values do not count as provided
+    const { error } = resolveArgs(args, parseArgs([]), { groups })
+    expect(error?.errors.length).toBe(1)
+    const required = error?.errors[0] as ArgResolveError
+    expect(required.message).toBe("At least one of 'file' or '--stdin' is required")
+    expect(required.name).toBe('file')
+    expect(required.type).toBe('required')
+    expect(required.code).toBe(ArgsValidationErrorKeys.groupRequired)
+    expect(required.values).toEqual({
+      group: 'at-least-one',
+      names: ['file', 'stdin'],
+      displayNames: ["'file'", "'--stdin'"],
+      provided: []
+    })
   })
 
-  test('analyze phase: kebab-case boolean followed by positional', () => {
-    const schema = {
-      file: {
-        type: 'positional',
-        required: false
-      },
-      enableLogging: {
-        type: 'boolean',
-        toKebab: true
-      },
-      force: {
-        type: 'boolean',
-        toKebab: true
-      }
-    } as const
+  test('exactly one', () => {
+    const groups: ArgGroup[] = [{ type: 'exactly-one', keys: ['json', 'toml'] }]
 
-    const flagThenPositional = resolveArgs(schema, parseArgs(['--enable-logging', 'app.js']))
-    expect(flagThenPositional.values.enableLogging).toBe(true)
-    expect(flagThenPositional.values.file).toBe('app.js')
-    expect(flagThenPositional.positionals).toEqual(['app.js'])
+    expect(resolveArgs(args, parseArgs(['--toml']), { groups }).error).toBeUndefined()
 
-    const positionalThenFlag = resolveArgs(schema, parseArgs(['app.js', '--enable-logging']))
-    expect(positionalThenFlag.values.enableLogging).toBe(true)
-    expect(positionalThenFlag.values.file).toBe('app.js')
-    expect(positionalThenFlag.positionals).toEqual(['app.js'])
+    const none = resolveArgs(args, parseArgs([]), { groups }).error
+    expect(none?.errors.map((e: Error) => e.message)).toEqual([
+      "Exactly one of '--json' or '--toml' is required"
+    ])
 
-    const nonHyphenatedBoolean = resolveArgs(schema, parseArgs(['--force', 'app.js']))
-    expect(nonHyphenatedBoolean.values.force).toBe(true)
-    expect(nonHyphenatedBoolean.values.file).toBe('app.js')
-    expect(nonHyphenatedBoolean.positionals).toEqual(['app.js'])
+    const many = resolveArgs(args, parseArgs(['--toml', '--json']), { groups }).error
+    expect(many?.errors.map((e: Error) => e.message)).toEqual([
+      "Only one of '--json' or '--toml' can be provided, but got '--json' and '--toml'"
+    ])
+    expect((many?.errors[0] as ArgResolveError).code).toBe(ArgsValidationErrorKeys.groupConflict)
   })
 
-  test('analyze phase: global toKebab boolean followed by positional', () => {
-    const schema = {
-      file: {
-        type: 'positional',
-        required: false
-      },
-      enableLogging: {
-        type: 'boolean'
-      }
-    } as const
+  test('ignores unknown keys', () => {
+    const groups: ArgGroup[] = [{ type: 'exactly-one', keys: ['unknown'] }]
+    const { error } = resolveArgs(args, parseArgs([]), { groups })
 
-    const { values, positionals } = resolveArgs(schema, parseArgs(['--enable-logging', 'app.js']), {
-      toKebab: true
+    expect(error).toBeUndefined()
+  })
+})
+
+describe('validate', () => {
+  const args = {
+    min: {
+      type: 'number',
+      default: 0
+    },
+    max: {
+      type: 'number',
+      default: 10
+    },
+    format: {
+      type: 'enum',
+      choices: ['text', 'file']
+    },
+    output: {
+      type: 'string'
+    }
+  } as const satisfies Args
+
+  function validate(
+    values: ArgValues<typeof args>,
+    explicit: ArgExplicitlyProvided<typeof args>
+  ): void {
+    const errors: ArgsValidationError[] = []
+    if (values.min >= values.max) {
+      errors.push(
+        new ArgsValidationError("'--min' should be less than '--max'", {
+          values: { min: values.min, max: values.max }
+        })
+      )
+    }
+    if (values.format === 'file' && !explicit.output) {
+      errors.push(new ArgsValidationError("'--output' is required when '--format' is 'file'"))
+    }
+    if (errors.length === 1) {
+      throw errors[0]
+    } else if (errors.length > 1) {
+      throw new AggregateError(errors)
+    }
+  }
+
+  test('passes resolved values and explicit status', () => {
+    const tokens = parseArgs(['--max', '20', '--format', 'file', '--output', 'out.txt'])
+    let received: unknown[] = []
+    const { error } = resolveArgs(args, tokens, {
+      validate(values, explicit) {
+        received = [values, explicit]
+      }
     })
-    expect(values.enableLogging).toBe(true)
-    expect(values.file).toBe('app.js')
-    expect(positionals).toEqual(['app.js'])
+
+    expect(error).toBeUndefined()
+    expect(received).toEqual([
+      { min: 0, max: 20, format: 'file', output: 'out.txt' },
+      { min: false, max: true, format: true, output: true }
+    ])
+  })
+
+  test('merges a thrown validation error', () => {
+    const tokens = parseArgs(['--min', '10'])
+    const { error } = resolveArgs(args, tokens, { validate })
+
+    expect(error?.errors.length).toBe(1)
+    expect(error?.errors[0]).toBeInstanceOf(ArgsValidationError)
+    expect((error?.errors[0] as ArgsValidationError).message).toBe(
+      "'--min' should be less than '--max'"
+    )
+    expect((error?.errors[0] as ArgsValidationError).values).toEqual({ min: 10, max: 10 })
+  })
+
+  test('merges validation errors in a thrown AggregateError', () => {
+    const tokens = parseArgs(['--min', '10', '--format', 'file'])
+    const { error } = resolveArgs(args, tokens, { validate })
+
+    expect(error?.errors.map((e: Error) => e.message)).toEqual([
+      "'--min' should be less than '--max'",
+      "'--output' is required when '--format' is 'file'"
+    ])
+  })
+
+  test('is called with resolved values when other validation errors occur', () => {
+    const tokens = parseArgs(['--min', 'abc', '--max=-1', '--format', 'json'])
+    let received: unknown
+    const { error } = resolveArgs(args, tokens, {
+      validate(values, explicit) {
+        received = values
+        validate(values, explicit)
+      }
+    })
+
+    // failed values fall back to the defaults or are missing
+    expect(received).toEqual({ min: 0, max: -1 })
+    expect(error?.errors.map((e: Error) => e.message)).toEqual([
+      "Optional argument '--min' should be 'number'",
+      `Optional argument '--format' should be chosen from 'enum' ["text", "file"] values`,
+      "'--min' should be less than '--max'"
+    ])
+  })
+
+  test('rethrows other errors', () => {
+    const tokens = parseArgs([])
+
+    expect(() =>
+      resolveArgs(args, tokens, {
+        validate() {
+          throw new TypeError('unexpected')
+        }
+      })
+    ).toThrow(new TypeError('unexpected'))
+  })
+})
+
+describe('resolveArgsAsync', () => {
+  const delay = <T>(value: T, ms = 1) =>
+    new Promise<T>(resolve => setTimeout(() => resolve(value), ms))
+
+  const args = {
+    config: {
+      type: 'custom',
+      parse: async (value: string) => {
+        const config = await delay(value)
+        if (!config.endsWith('.json')) {
+          throw new TypeError(`Expected a JSON file, got '${config}'`)
+        }
+        return { path: config }
+      }
+    },
+    hosts: {
+      type: 'string',
+      multiple: true,
+      parse: (value: string) => delay(value.toUpperCase())
+    },
+    port: {
+      type: 'number',
+      default: 8080
+    },
+    file: {
+      type: 'positional',
+      parse: (value: string) => delay(value.length)
+    }
+  } as const satisfies Args
+
+  test('awaits asynchronous parse functions', async () => {
+    const tokens = parseArgs(['--config', 'app.json', '--hosts', 'a', 'index.ts', '--hosts', 'b'])
+    const { values, positionals, explicit, sources, error } = await resolveArgsAsync(args, tokens)
+
+    expect(error).toBeUndefined()
+    expect(values).toEqual({
+      config: { path: 'app.json' },
+      hosts: ['A', 'B'],
+      port: 8080,
+      file: 8
+    })
+    expect(positionals).toEqual(['index.ts'])
+    expect(explicit).toEqual({ config: true, hosts: true, port: false, file: true })
+    expect(sources.config).toEqual({ kind: 'cli', indices: [0], inputName: '--config' })
+  })
+
+  test('reports rejections as validation errors', async () => {
+    const tokens = parseArgs(['--config', 'app.yaml', 'index.ts'])
+    const { values, sources, error } = await resolveArgsAsync(args, tokens)
+
+    expect(values).toEqual({ port: 8080, file: 8 })
+    expect(sources.config).toBeUndefined()
+    expect(error?.errors.length).toBe(1)
+    const config = error?.errors[0] as ArgsValidationError
+    expect(config).toBeInstanceOf(ArgsValidationError)
+    expect(config.code).toBe(ArgsValidationErrorKeys.customParse)
+    expect(config.message).toBe("Expected a JSON file, got 'app.yaml'")
+    expect(config.values).toEqual({
+      displayName: "'--config'",
+      name: 'config',
+      reason: "Expected a JSON file, got 'app.yaml'"
+    })
+    expect(config.cause).toBeInstanceOf(TypeError)
+  })
+
+  test('awaits asynchronous validate hook', async () => {
+    const tokens = parseArgs(['--config', 'app.json', 'index.ts'])
+    let received: unknown
+    const { error } = await resolveArgsAsync(args, tokens, {
+      async validate(values) {
+        received = values.config
+        await delay(undefined)
+        throw new ArgsValidationError('invalid')
+      }
+    })
+
+    expect(received).toEqual({ path: 'app.json' })
+    expect(error?.errors.map((e: Error) => e.message)).toEqual(['invalid'])
+  })
+
+  test('calls asynchronous validate hook when other validation errors occur', async () => {
+    const tokens = parseArgs(['--config', 'app.yaml', 'index.ts'])
+    let received: unknown
+    const { error } = await resolveArgsAsync(args, tokens, {
+      validate(values) {
+        received = values
+        throw new ArgsValidationError('invalid')
+      }
+    })
+
+    expect(received).toEqual({ port: 8080, file: 8 })
+    expect(error?.errors.map((e: Error) => e.message)).toEqual([
+      "Expected a JSON file, got 'app.yaml'",
+      'invalid'
+    ])
+  })
+
+  test('reports rejections of overwritten values', async () => {
+    const schema = {
+      cfg: {
+        type: 'string',
+        parse: async (value: string) => {
+          await delay(undefined)
+          if (value === 'bad') {
+            throw new Error(`Invalid config '${value}'`)
+          }
+          return value
+        }
+      }
+    } as const satisfies Args
+    const tokens = parseArgs(['--cfg', 'bad', '--cfg', 'good'])
+
+    const { values, error } = await resolveArgsAsync(schema, tokens)
+    expect(values).toEqual({ cfg: 'good' })
+    expect(error?.errors.map((e: Error) => e.message)).toEqual(["Invalid config 'bad'"])
+    expect((error?.errors[0] as ArgsValidationError).code).toBe(ArgsValidationErrorKeys.customParse)
+  })
+
+  test('calls default factories with awaited values', async () => {
+    const schema = {
+      input: {
+        type: 'string',
+        parse: (value: string) => delay(value.toUpperCase())
+      },
+      output: {
+        type: 'string',
+        default: (values: Record<string, unknown>) =>
+          typeof values.input === 'string' ? `${values.input}.js` : undefined
+      },
+      config: {
+        ...args.config,
+        default: (values: Record<string, unknown>) => ({ path: `${String(values.output)}.json` })
+      }
+    } as const satisfies Args
+
+    const { values, sources, error } = await resolveArgsAsync(
+      schema,
+      parseArgs(['--input', 'app', '--config', 'app.yaml'])
+    )
+    expect(values).toEqual({ input: 'APP', output: 'APP.js', config: { path: 'APP.js.json' } })
+    expect(sources.output).toEqual({ kind: 'implied' })
+    // the rejected value falls back to the default factory
+    expect(sources.config).toEqual({ kind: 'implied' })
+    expect(error?.errors.map((e: Error) => e.message)).toEqual([
+      "Expected a JSON file, got 'app.yaml'"
+    ])
+  })
+
+  test('awaits asynchronous map entries', async () => {
+    const schema = {
+      define: {
+        type: 'map',
+        duplicateKeys: 'error',
+        parse: async (value: string) => {
+          const [key, item] = value.split('=')
+          return [key.toUpperCase(), await delay(item)]
+        }
+      }
+    } as const satisfies Args
+
+    const resolved = await resolveArgsAsync(
+      schema,
+      parseArgs(['--define', 'a=1', '--define', 'b=2'])
+    )
+    expect(resolved.error).toBeUndefined()
+    expect(resolved.values.define).toEqual({ A: '1', B: '2' })
+
+    const { values, error } = await resolveArgsAsync(
+      schema,
+      parseArgs(['--define', 'a=1', '--define', 'a=2'])
+    )
+    expect(values.define).toBeUndefined()
+    expect(error?.errors.length).toBe(1)
+    expect((error?.errors[0] as ArgsValidationError).code).toBe(
+      ArgsValidationErrorKeys.duplicateKey
+    )
+  })
+
+  test('rejects with the abort reason', async () => {
+    const tokens = parseArgs(['--config', 'app.json', 'index.ts'])
+
+    const controller = new AbortController()
+    const resolving = resolveArgsAsync(
+      { config: { type: 'custom', parse: () => delay('never', 1000) } } as const satisfies Args,
+      tokens,
+      { signal: controller.signal }
+    )
+    controller.abort(new Error('aborted'))
+    await expect(resolving).rejects.toThrow('aborted')
+
+    await expect(
+      resolveArgsAsync(args, tokens, { signal: AbortSignal.abort(new Error('already aborted')) })
+    ).rejects.toThrow('already aborted')
+  })
+
+  test('resolves synchronous schemas', async () => {
+    const tokens = parseArgs(['--port', '3000'])
+    const { values, error } = await resolveArgsAsync({ port: args.port }, tokens)
+
+    expect(error).toBeUndefined()
+    expect(values).toEqual({ port: 3000 })
+  })
+})
+
+describe('deprecations', () => {
+  const args = {
+    outDir: {
+      type: 'string',
+      toKebab: true,
+      deprecatedNames: ['output-dir', 'dist']
+    },
+    cache: {
+      type: 'boolean',
+      negatable: true,
+      deprecatedNames: ['store']
+    },
+    color: {
+      type: 'boolean',
+      env: 'COLOR',
+      deprecated: { since: '2.0.0', replacement: 'theme' }
+    },
+    theme: {
+      type: 'string'
+    },
+    legacy: {
+      type: 'string',
+      short: 'l',
+      deprecated: 'It will be removed in the next major version'
+    },
+    mode: {
+      type: 'string',
+      default: 'dev',
+      deprecated: 'Use a configuration file'
+    }
+  } as const satisfies Args
+
+  test('no warnings without deprecated arguments', () => {
+    const tokens = parseArgs(['--out-dir', 'lib', '--theme', 'dark'])
+    const { values, warnings, error } = resolveArgs(args, tokens)
+
+    expect(error).toBeUndefined()
+    expect(values).toEqual({ outDir: 'lib', theme: 'dark', mode: 'dev' })
+    expect(warnings).toEqual([])
+  })
+
+  test('deprecated names resolve into the key', () => {
+    const tokens = parseArgs(['--output-dir', 'lib', '--no-store', '--output-dir=dist'])
+    const { values, explicit, sources, warnings, error } = resolveArgs(args, tokens, {
+      strict: true
+    })
+
+    expect(error).toBeUndefined()
+    expect(values).toEqual({ outDir: 'dist', cache: false, mode: 'dev' })
+    expect(explicit).toMatchObject({ outDir: true, cache: true })
+    expect(sources.outDir).toEqual({ kind: 'cli', indices: [0, 3], inputName: '--output-dir' })
+    expect(warnings.map(w => w.message)).toEqual([
+      "Optional argument '--output-dir' is deprecated. Use '--out-dir' instead",
+      "Optional argument '--no-store' is deprecated. Use '--no-cache' instead"
+    ])
+    expect(warnings[0]).toBeInstanceOf(ArgsValidationError)
+    expect(warnings[0].code).toBe(ArgsValidationErrorKeys.deprecatedName)
+    expect(warnings[0].values).toEqual({
+      displayName: "'--out-dir'",
+      name: 'outDir',
+      deprecatedName: 'output-dir'
+    })
+  })
+
+  test('deprecated arguments are resolved with warnings', () => {
+    const tokens = parseArgs(['--color', '-l', 'yes'])
+    const { values, warnings, error } = resolveArgs(args, tokens)
+
+    expect(error).toBeUndefined()
+    expect(values).toEqual({ color: true, legacy: 'yes', mode: 'dev' })
+    expect(warnings.map(w => w.message)).toEqual([
+      "Optional argument '--color' is deprecated since 2.0.0. Use '--theme' instead",
+      "Optional argument '-l' is deprecated: It will be removed in the next major version"
+    ])
+    expect(warnings.map(w => w.code)).toEqual([
+      ArgsValidationErrorKeys.deprecatedOption,
+      ArgsValidationErrorKeys.deprecatedOption
+    ])
+    expect(warnings[0].values).toEqual({
+      displayName: "'--color'",
+      name: 'color',
+      since: '2.0.0',
+      replacement: 'theme',
+      replacementDisplayName: "'--theme'"
+    })
+    expect(warnings[1].values).toEqual({
+      displayName: "'--legacy' or '-l'",
+      name: 'legacy',
+      message: 'It will be removed in the next major version'
+    })
+  })
+
+  test('deprecated arguments from environment variables', () => {
+    const tokens = parseArgs([])
+    const { warnings } = resolveArgs(args, tokens, { env: { COLOR: '1' } })
+
+    expect(warnings.map(w => w.message)).toEqual([
+      "Optional argument '--color' is deprecated since 2.0.0. Use '--theme' instead"
+    ])
+  })
+
+  test('default values do not warn', () => {
+    const tokens = parseArgs([])
+    const { warnings } = resolveArgs(args, tokens)
+
+    expect(warnings).toEqual([])
+  })
+})
+
+describe('aliases', () => {
+  const args = {
+    output: {
+      type: 'string',
+      short: 'o',
+      aliases: ['out', 'dest', 'O'],
+      conflicts: 'stdout'
+    },
+    stdout: {
+      type: 'boolean'
+    },
+    color: {
+      type: 'boolean',
+      negatable: true,
+      aliases: ['colour', 'C']
+    },
+    verbose: {
+      type: 'count',
+      aliases: ['V']
+    }
+  } as const satisfies Args
+
+  test('resolves long and short aliases', () => {
+    const tokens = parseArgs(['--out', 'dist', '--colour', '-V', '-V'])
+    const { values, sources, error } = resolveArgs(args, tokens, { strict: true })
+
+    expect(error).toBeUndefined()
+    expect(values).toEqual({ output: 'dist', color: true, verbose: 2 })
+    expect(sources.output).toEqual({ kind: 'cli', indices: [0], inputName: '--out' })
+    expect(sources.verbose).toEqual({ kind: 'cli', indices: [3, 4], inputName: '-V' })
+  })
+
+  test('resolves short aliases with short grouping', () => {
+    const tokens = parseArgs(['-CVVO', 'dist'])
+    const { values, error } = resolveArgs(args, tokens, { shortGrouping: true })
+
+    expect(error).toBeUndefined()
+    expect(values).toEqual({ output: 'dist', color: true, verbose: 2 })
+  })
+
+  test('short alias flags do not take a value', () => {
+    const tokens = parseArgs(['-C', 'file.txt'])
+    const { values, positionals } = resolveArgs(args, tokens)
+
+    expect(values).toEqual({ color: true })
+    expect(positionals).toEqual(['file.txt'])
+  })
+
+  test('negatable aliases', () => {
+    const tokens = parseArgs(['--no-colour'])
+    const { values, error } = resolveArgs(args, tokens, { strict: true })
+
+    expect(error).toBeUndefined()
+    expect(values).toEqual({ color: false })
+  })
+
+  test('reports actual alias names in conflicts', () => {
+    const tokens = parseArgs(['-O', 'dist', '--stdout'])
+    const { error } = resolveArgs(args, tokens)
+
+    expect(error?.errors.length).toBe(1)
+    const conflict = error?.errors[0] as ArgResolveError
+    expect(conflict.message).toBe("Optional argument '-O' conflicts with '--stdout'")
+    expect(conflict.values).toMatchObject({
+      displayName: "'--output', '--out', '--dest', '-o' or '-O'"
+    })
+  })
+
+  test('includes aliases in display names and suggestions', () => {
+    const tokens = parseArgs(['--dset', 'dist', '--output'])
+    const { error } = resolveArgs(args, tokens, { strict: true })
+
+    expect(error?.errors.map((e: Error) => e.message)).toEqual([
+      "Optional argument '--output', '--out', '--dest', '-o' or '-O' should be 'string'",
+      "Unknown option '--dset'. Did you mean '--dest'?"
+    ])
+  })
+})
+
+describe('abbreviations', () => {
+  const args = {
+    verbose: {
+      type: 'boolean'
+    },
+    color: {
+      type: 'boolean',
+      negatable: true
+    },
+    config: {
+      type: 'string'
+    },
+    outDir: {
+      type: 'string',
+      toKebab: true,
+      aliases: ['output-dir']
+    }
+  } as const satisfies Args
+
+  test('expands unique prefixes of long options', () => {
+    const tokens = parseArgs(['--verb', '--conf', 'app.json', '--out=dist'])
+    const { values, error } = resolveArgs(args, tokens, { allowAbbreviations: true, strict: true })
+
+    expect(error).toBeUndefined()
+    expect(values).toEqual({ verbose: true, config: 'app.json', outDir: 'dist' })
+  })
+
+  test('expands `--no-` prefixes of negatable options', () => {
+    const tokens = parseArgs(['--no-col'])
+    const { values, error } = resolveArgs(args, tokens, { allowAbbreviations: true, strict: true })
+
+    expect(error).toBeUndefined()
+    expect(values).toEqual({ color: false })
+  })
+
+  test('expanded boolean options do not take a value', () => {
+    const tokens = parseArgs(['--verb', 'file.txt'])
+    const { values, positionals, error } = resolveArgs(args, tokens, { allowAbbreviations: true })
+
+    expect(error).toBeUndefined()
+    expect(values).toEqual({ verbose: true })
+    expect(positionals).toEqual(['file.txt'])
+  })
+
+  test('exact names win over prefixes', () => {
+    const args = {
+      port: {
+        type: 'number'
+      },
+      portRange: {
+        type: 'string'
+      }
+    } as const satisfies Args
+    const tokens = parseArgs(['--port', '8080'])
+    const { values, error } = resolveArgs(args, tokens, { allowAbbreviations: true, strict: true })
+
+    expect(error).toBeUndefined()
+    expect(values).toEqual({ port: 8080 })
+  })
+
+  test('reports ambiguous prefixes with candidates', () => {
+    const tokens = parseArgs(['--co', 'x'])
+    const { values, error } = resolveArgs(args, tokens, { allowAbbreviations: true, strict: true })
+
+    expect(values).toEqual({})
+    expect(error?.errors).toHaveLength(1)
+    const ambiguous = error?.errors[0] as ArgResolveError
+    expect(ambiguous).toBeInstanceOf(ArgResolveError)
+    expect(ambiguous.type).toBe('unknown')
+    expect(ambiguous.message).toBe("Ambiguous option '--co' could match '--color' or '--config'")
+    expect(ambiguous.code).toBe(ArgsValidationErrorKeys.ambiguousOption)
+    expect(ambiguous.values).toEqual({
+      name: 'co',
+      rawName: '--co',
+      index: 0,
+      candidates: ['--color', '--config']
+    })
+  })
+
+  test('aliases of the same option are not ambiguous', () => {
+    const tokens = parseArgs(['--ou', 'dist'])
+    const { values, error } = resolveArgs(args, tokens, { allowAbbreviations: true, strict: true })
+
+    expect(error).toBeUndefined()
+    expect(values).toEqual({ outDir: 'dist' })
+  })
+
+  test('does not expand prefixes by default', () => {
+    const tokens = parseArgs(['--verb'])
+    const { values, error } = resolveArgs(args, tokens, { strict: true })
+
+    expect(values).toEqual({})
+    expect(error?.errors.map((e: Error) => e.message)).toEqual(["Unknown option '--verb'"])
+  })
+})
+
+describe('inline boolean values', () => {
+  const args = {
+    cache: {
+      type: 'boolean',
+      short: 'c'
+    },
+    color: {
+      type: 'boolean',
+      negatable: true
+    }
+  } as const satisfies Args
+
+  test('ignores inline values by default', () => {
+    const tokens = parseArgs(['--cache=false'])
+    const { values, error } = resolveArgs(args, tokens)
+
+    expect(error).toBeUndefined()
+    expect(values).toEqual({ cache: true })
+  })
+
+  test('parses inline values of long and short options', () => {
+    for (const [argv, expected] of [
+      [['--cache=false'], false],
+      [['--cache=YES'], true],
+      [['--cache=off'], false],
+      [['--cache=1'], true],
+      [['-c=false'], false],
+      [['-c=on'], true]
+    ] as const) {
+      const { values, error } = resolveArgs(args, parseArgs([...argv]), {
+        inlineBooleanValues: true
+      })
+      expect(error).toBeUndefined()
+      expect(values).toEqual({ cache: expected })
+    }
+  })
+
+  test('parses short inline values with short grouping', () => {
+    const tokens = parseArgs(['-c=no'])
+    const { values, error } = resolveArgs(args, tokens, {
+      inlineBooleanValues: true,
+      shortGrouping: true
+    })
+
+    expect(error).toBeUndefined()
+    expect(values).toEqual({ cache: false })
+  })
+
+  test('negates inline values of the `--no-` form', () => {
+    const tokens = parseArgs(['--no-color=false'])
+    const { values } = resolveArgs(args, tokens, { inlineBooleanValues: true })
+
+    expect(values).toEqual({ color: true })
+  })
+
+  test('reports unrecognized values', () => {
+    const tokens = parseArgs(['--cache=maybe', '-c=2'])
+    const { values, error } = resolveArgs(args, tokens, { inlineBooleanValues: true })
+
+    expect(values).toEqual({})
+    expect(error?.errors.map((e: Error) => e.message)).toEqual([
+      "Optional argument '--cache' or '-c' should be 'boolean'",
+      "Optional argument '--cache' or '-c' should be 'boolean'"
+    ])
+    expect((error?.errors[0] as ArgResolveError).values).toMatchObject({
+      expected: 'boolean',
+      actual: 'maybe'
+    })
+  })
+
+  test('supports custom values', () => {
+    const options = { inlineBooleanValues: { truthy: ['enable'], falsy: ['disable'] } }
+
+    expect(resolveArgs(args, parseArgs(['--cache=Disable']), options).values).toEqual({
+      cache: false
+    })
+    expect(resolveArgs(args, parseArgs(['--cache=enable']), options).values).toEqual({
+      cache: true
+    })
+    expect(resolveArgs(args, parseArgs(['--cache=false']), options).error?.errors).toHaveLength(1)
+  })
+})
+
+describe('strict mode', () => {
+  const args = {
+    verbose: {
+      type: 'boolean',
+      short: 'v',
+      negatable: true
+    },
+    outDir: {
+      type: 'string',
+      toKebab: true
+    }
+  } as const satisfies Args
+
+  test('ignores unknown options by default', () => {
+    const tokens = parseArgs(['--verbsoe', '-x'])
+    const { values, error } = resolveArgs(args, tokens)
+
+    expect(values).toEqual({})
+    expect(error).toBeUndefined()
+  })
+
+  test('reports unknown long option', () => {
+    const tokens = parseArgs(['--unknown', '--out-dir', 'dist'])
+    const { values, error } = resolveArgs(args, tokens, { strict: true })
+
+    expect(values).toEqual({ outDir: 'dist' })
+    expect(error?.errors.length).toBe(1)
+    const unknown = error?.errors[0] as ArgResolveError
+    expect(unknown).toBeInstanceOf(ArgResolveError)
+    expect(unknown.message).toBe("Unknown option '--unknown'")
+    expect(unknown.name).toBe('unknown')
+    expect(unknown.type).toBe('unknown')
+    expect(unknown.schema).toEqual({ type: 'boolean' })
+    expect(unknown.code).toBe(ArgsValidationErrorKeys.unknownOption)
+    expect(unknown.values).toEqual({
+      name: 'unknown',
+      rawName: '--unknown',
+      index: 0
+    })
+  })
+
+  test('reports unknown long option with inline value', () => {
+    const tokens = parseArgs(['--output=dist'])
+    const { error } = resolveArgs(args, tokens, { strict: true })
+
+    expect(error?.errors.length).toBe(1)
+    const unknown = error?.errors[0] as ArgResolveError
+    expect(unknown.message).toBe("Unknown option '--output'")
+    expect(unknown.schema).toEqual({ type: 'string' })
+    expect(unknown.values).toEqual({
+      name: 'output',
+      rawName: '--output',
+      index: 0
+    })
+  })
+
+  test('reports unknown short option', () => {
+    const tokens = parseArgs(['-v', '-x'])
+    const { values, error } = resolveArgs(args, tokens, { strict: true })
+
+    expect(values).toEqual({ verbose: true })
+    expect(error?.errors.length).toBe(1)
+    const unknown = error?.errors[0] as ArgResolveError
+    expect(unknown.message).toBe("Unknown option '-x'")
+    expect(unknown.code).toBe(ArgsValidationErrorKeys.unknownOption)
+    expect(unknown.values).toEqual({
+      name: 'x',
+      rawName: '-x',
+      index: 1
+    })
+  })
+
+  test('reports unknown short option in group', () => {
+    const tokens = parseArgs(['-vx'])
+    const { error } = resolveArgs(args, tokens, { strict: true, shortGrouping: true })
+
+    expect(error?.errors.length).toBe(1)
+    expect((error?.errors[0] as ArgResolveError).values).toEqual({
+      name: 'x',
+      rawName: '-x',
+      index: 0
+    })
+  })
+
+  test('reports unknown negated option', () => {
+    const tokens = parseArgs(['--no-verbose', '--no-cache'])
+    const { values, error } = resolveArgs(args, tokens, { strict: true })
+
+    expect(values).toEqual({ verbose: false })
+    expect(error?.errors.length).toBe(1)
+    const unknown = error?.errors[0] as ArgResolveError
+    expect(unknown.message).toBe("Unknown option '--no-cache'")
+    expect(unknown.values).toEqual({
+      name: 'no-cache',
+      rawName: '--no-cache',
+      index: 1
+    })
+  })
+
+  test('reports every unknown option in token order', () => {
+    const tokens = parseArgs(['--foo', '-x', '--verbose', '--bar=1'])
+    const { error } = resolveArgs(args, tokens, { strict: true })
+
+    expect(error?.errors.map((e: Error) => e.message)).toEqual([
+      "Unknown option '--foo'",
+      "Unknown option '-x'",
+      "Unknown option '--bar'"
+    ])
+  })
+
+  test('suggests similar long options', () => {
+    const tokens = parseArgs(['--verbsoe', '--no-verbos', '--outdir=dist'])
+    const { error } = resolveArgs(args, tokens, { strict: true })
+
+    expect(error?.errors.length).toBe(3)
+    const [verbose, negated, outDir] = error?.errors as ArgResolveError[]
+    expect(verbose.message).toBe("Unknown option '--verbsoe'. Did you mean '--verbose'?")
+    expect(verbose.values.suggestions).toEqual(['--verbose'])
+    expect(negated.message).toBe("Unknown option '--no-verbos'. Did you mean '--no-verbose'?")
+    expect(negated.values.suggestions).toEqual(['--no-verbose'])
+    expect(outDir.message).toBe("Unknown option '--outdir'. Did you mean '--out-dir'?")
+    expect(outDir.values).toEqual({
+      name: 'outdir',
+      rawName: '--outdir',
+      index: 2,
+      suggestions: ['--out-dir']
+    })
+  })
+
+  test('suggests short options', () => {
+    const tokens = parseArgs(['-V'])
+    const { error } = resolveArgs(args, tokens, { strict: true })
+
+    const unknown = error?.errors[0] as ArgResolveError
+    expect(unknown.message).toBe("Unknown option '-V'. Did you mean '-v'?")
+    expect(unknown.values.suggestions).toEqual(['-v'])
+  })
+
+  test('does not report positionals and rest arguments', () => {
+    const tokens = parseArgs(['build', '--verbose', '--', '--unknown'])
+    const { positionals, rest, error } = resolveArgs(args, tokens, { strict: true })
+
+    expect(positionals).toEqual(['build'])
+    expect(rest).toEqual(['--unknown'])
+    expect(error).toBeUndefined()
+  })
+})
+
+describe('environment variables', () => {
+  const args = {
+    port: {
+      type: 'number',
+      short: 'p',
+      env: 'PORT',
+      default: 8080
+    },
+    token: {
+      type: 'string',
+      env: ['APP_TOKEN', 'GITHUB_TOKEN'],
+      required: true
+    },
+    color: {
+      type: 'boolean',
+      negatable: true,
+      env: 'FORCE_COLOR'
+    },
+    level: {
+      type: 'enum',
+      choices: ['debug', 'info', 'warn'],
+      env: 'LOG_LEVEL'
+    },
+    tags: {
+      type: 'string',
+      multiple: true,
+      env: 'TAGS'
+    }
+  } as const satisfies Args
+
+  test('ignores environment variables by default', () => {
+    const tokens = parseArgs(['--token', 'abc'])
+    const { values, fromEnv, error } = resolveArgs(args, tokens)
+
+    expect(values).toEqual({ port: 8080, token: 'abc' })
+    expect(fromEnv).toEqual({})
+    expect(error).toBeUndefined()
+  })
+
+  test('falls back to environment variables', () => {
+    const tokens = parseArgs([])
+    const { values, explicit, fromEnv, error } = resolveArgs(args, tokens, {
+      env: {
+        PORT: '3000',
+        GITHUB_TOKEN: 'ghp',
+        FORCE_COLOR: 'no',
+        LOG_LEVEL: 'debug',
+        TAGS: 'foo'
+      }
+    })
+
+    expect(error).toBeUndefined()
+    expect(values).toEqual({
+      port: 3000,
+      token: 'ghp',
+      color: false,
+      level: 'debug',
+      tags: ['foo']
+    })
+    expect(explicit).toEqual({
+      port: false,
+      token: false,
+      color: false,
+      level: false,
+      tags: false
+    })
+    expect(fromEnv).toEqual({
+      port: 'PORT',
+      token: 'GITHUB_TOKEN',
+      color: 'FORCE_COLOR',
+      level: 'LOG_LEVEL',
+      tags: 'TAGS'
+    })
+  })
+
+  test('command line arguments take precedence', () => {
+    const tokens = parseArgs(['-p', '9131', '--token=cli', '--no-color'])
+    const { values, explicit, fromEnv } = resolveArgs(args, tokens, {
+      env: { PORT: '3000', APP_TOKEN: 'env', FORCE_COLOR: '1' }
+    })
+
+    expect(values).toEqual({ port: 9131, token: 'cli', color: false })
+    expect(explicit).toMatchObject({ port: true, token: true, color: true })
+    expect(fromEnv).toEqual({})
+  })
+
+  test('looks up names in order and skips empty values', () => {
+    const tokens = parseArgs([])
+    const { values, fromEnv } = resolveArgs(args, tokens, {
+      env: { APP_TOKEN: '', GITHUB_TOKEN: 'ghp', PORT: '' }
+    })
+
+    expect(values).toEqual({ port: 8080, token: 'ghp' })
+    expect(fromEnv).toEqual({ token: 'GITHUB_TOKEN' })
+  })
+
+  test('fromEnv is derived from sources', async () => {
+    const tokens = parseArgs(['--token', 'abc'])
+    const { fromEnv, sources } = resolveArgs(args, tokens, { env: { PORT: '3000' } })
+    expect(fromEnv).toEqual({ port: 'PORT' })
+    expect(sources.port).toEqual({ kind: 'env', env: 'PORT' })
+
+    // rejected values fall back to the default, and are no longer from the environment variable
+    const asyncArgs = {
+      port: {
+        type: 'custom',
+        env: 'PORT',
+        default: '8080',
+        parse: () => Promise.reject(new ArgsValidationError('Port is in use'))
+      }
+    } as const satisfies Args
+    const resolved = await resolveArgsAsync(asyncArgs, parseArgs([]), { env: { PORT: '3000' } })
+    expect(resolved.values).toEqual({ port: '8080' })
+    expect(resolved.sources.port).toEqual({ kind: 'default' })
+    expect(resolved.fromEnv).toEqual({})
+  })
+
+  test('required option is still missing without environment variable', () => {
+    const tokens = parseArgs([])
+    const { error } = resolveArgs(args, tokens, { env: { PORT: '3000' } })
+
+    expect(error?.errors.length).toBe(1)
+    expect((error?.errors[0] as ArgResolveError).code).toBe(ArgsValidationErrorKeys.requiredOption)
+  })
+
+  test('reports invalid values with environment variable name', () => {
+    const tokens = parseArgs(['--token', 'abc'])
+    const { values, error } = resolveArgs(args, tokens, {
+      env: { PORT: 'abc', FORCE_COLOR: 'maybe', LOG_LEVEL: 'inf' }
+    })
+
+    expect(values).toEqual({ port: 8080, token: 'abc' })
+    expect(error?.errors.length).toBe(3)
+    const [port, color, level] = error?.errors as ArgResolveError[]
+    expect(port.message).toBe("Environment variable 'PORT' should be 'number'")
+    expect(port.code).toBe(ArgsValidationErrorKeys.invalidType)
+    expect(port.values).toEqual({
+      displayName: "'--port' or '-p'",
+      name: 'port',
+      expected: 'number',
+      actual: 'abc',
+      env: 'PORT'
+    })
+    expect(color.message).toBe("Environment variable 'FORCE_COLOR' should be 'boolean'")
+    expect(color.values).toMatchObject({ actual: 'maybe', env: 'FORCE_COLOR' })
+    expect(level.message).toBe(
+      `Environment variable 'LOG_LEVEL' should be chosen from 'enum' ["debug", "info", "warn"] values. Did you mean 'info'?`
+    )
+    expect(level.values).toMatchObject({
+      actual: 'inf',
+      suggestions: ['info'],
+      env: 'LOG_LEVEL'
+    })
+  })
+
+  test('passes boolean value to custom parse', () => {
+    const tokens = parseArgs([])
+    const { values } = resolveArgs(
+      {
+        debug: {
+          type: 'boolean',
+          env: 'DEBUG',
+          parse: (value: string) => (value === 'true' ? 'on' : 'off')
+        }
+      },
+      tokens,
+      { env: { DEBUG: 'TRUE' } }
+    )
+
+    expect(values).toEqual({ debug: 'on' })
+  })
+})
+
+describe('schema.parse priority', () => {
+  test('string type with parse function', () => {
+    const argv = ['--port', '8080']
+    const tokens = parseArgs(argv)
+    const { values } = resolveArgs(
+      {
+        port: {
+          type: 'string',
+          parse: (v: string) => parseInt(v, 10)
+        }
+      },
+      tokens
+    )
+    expect(values.port).toBe(8080)
+  })
+
+  test('boolean type with parse function', () => {
+    const argv = ['--verbose']
+    const tokens = parseArgs(argv)
+    const { values } = resolveArgs(
+      {
+        verbose: {
+          type: 'boolean',
+          parse: (v: string) => v === 'true'
+        }
+      },
+      tokens
+    )
+    expect(values.verbose).toBe(true)
+  })
+
+  test('boolean type with parse function and negation', () => {
+    const argv = ['--no-verbose']
+    const tokens = parseArgs(argv)
+    const { values } = resolveArgs(
+      {
+        verbose: {
+          type: 'boolean',
+          negatable: true,
+          parse: (v: string) => v === 'true'
+        }
+      },
+      tokens
+    )
+    expect(values.verbose).toBe(false)
+  })
+
+  test('positional with parse function', () => {
+    const argv = ['42']
+    const tokens = parseArgs(argv)
+    const { values } = resolveArgs(
+      {
+        count: {
+          type: 'positional',
+          parse: (v: string) => parseInt(v, 10)
+        }
+      },
+      tokens
+    )
+    expect(values.count).toBe(42)
+  })
+
+  test('multiple positional with parse function', () => {
+    const argv = ['1', '2', '3']
+    const tokens = parseArgs(argv)
+    const { values } = resolveArgs(
+      {
+        numbers: {
+          type: 'positional',
+          multiple: true,
+          parse: (v: string) => parseInt(v, 10)
+        }
+      },
+      tokens
+    )
+    expect(values.numbers).toEqual([1, 2, 3])
+  })
+
+  test('positional parse error handling', () => {
+    const argv = ['not-a-number']
+    const tokens = parseArgs(argv)
+    const { error } = resolveArgs(
+      {
+        count: {
+          type: 'positional',
+          parse: (v: string) => {
+            const n = parseInt(v, 10)
+            if (isNaN(n)) throw new Error('Expected integer')
+            return n
+          }
+        }
+      },
+      tokens
+    )
+    expect(error?.errors.length).toBe(1)
+    expect((error?.errors[0] as Error).message).toBe('Expected integer')
+  })
+
+  test('analyze phase: boolean followed by positional', () => {
+    const argv = ['--verbose', 'foo', '--port', '8080']
+    const tokens = parseArgs(argv)
+    const { values, positionals } = resolveArgs(
+      {
+        verbose: {
+          type: 'boolean'
+        },
+        port: {
+          type: 'number',
+          short: 'p'
+        }
+      },
+      tokens
+    )
+    expect(values.verbose).toBe(true)
+    expect(values.port).toBe(8080)
+    expect(positionals).toEqual(['foo'])
+  })
+
+  test('analyze phase: kebab-case boolean followed by positional', () => {
+    const schema = {
+      file: {
+        type: 'positional',
+        required: false
+      },
+      enableLogging: {
+        type: 'boolean',
+        toKebab: true
+      },
+      force: {
+        type: 'boolean',
+        toKebab: true
+      }
+    } as const
+
+    const flagThenPositional = resolveArgs(schema, parseArgs(['--enable-logging', 'app.js']))
+    expect(flagThenPositional.values.enableLogging).toBe(true)
+    expect(flagThenPositional.values.file).toBe('app.js')
+    expect(flagThenPositional.positionals).toEqual(['app.js'])
+
+    const positionalThenFlag = resolveArgs(schema, parseArgs(['app.js', '--enable-logging']))
+    expect(positionalThenFlag.values.enableLogging).toBe(true)
+    expect(positionalThenFlag.values.file).toBe('app.js')
+    expect(positionalThenFlag.positionals).toEqual(['app.js'])
+
+    const nonHyphenatedBoolean = resolveArgs(schema, parseArgs(['--force', 'app.js']))
+    expect(nonHyphenatedBoolean.values.force).toBe(true)
+    expect(nonHyphenatedBoolean.values.file).toBe('app.js')
+    expect(nonHyphenatedBoolean.positionals).toEqual(['app.js'])
+  })
+
+  test('analyze phase: global toKebab boolean followed by positional', () => {
+    const schema = {
+      file: {
+        type: 'positional',
+        required: false
+      },
+      enableLogging: {
+        type: 'boolean'
+      }
+    } as const
+
+    const { values, positionals } = resolveArgs(schema, parseArgs(['--enable-logging', 'app.js']), {
+      toKebab: true
+    })
+    expect(values.enableLogging).toBe(true)
+    expect(values.file).toBe('app.js')
+    expect(positionals).toEqual(['app.js'])
   })
 
   test('analyze phase: negatable kebab-case boolean followed by positional', () => {
@@ -2499,11 +3816,726 @@ describe('schema.parse priority', () => {
           negatable: true
         }
       },
-      parseArgs(['--no-enable-logging', 'app.js'])
+      parseArgs(['--no-enable-logging', 'app.js'])
+    )
+    expect(values.enableLogging).toBe(false)
+    expect(values.file).toBe('app.js')
+    expect(positionals).toEqual(['app.js'])
+  })
+})
+
+describe('count', () => {
+  const args = {
+    verbose: {
+      type: 'count',
+      short: 'v',
+      negatable: true,
+      default: 0
+    },
+    output: {
+      type: 'string',
+      short: 'o'
+    }
+  } as const satisfies Args
+
+  test('counts repeated long and short options', () => {
+    const tokens = parseArgs(['-v', '--verbose', '-v'])
+    const { values, explicit, sources } = resolveArgs(args, tokens)
+
+    expect(values).toEqual({ verbose: 3 })
+    expect(explicit.verbose).toBe(true)
+    expect(sources.verbose).toEqual({ kind: 'cli', indices: [0, 1, 2], inputName: '-v' })
+  })
+
+  test('counts grouped short options', () => {
+    const tokens = parseArgs(['-vvvo', 'dist'])
+    const { values, error } = resolveArgs(args, tokens, { shortGrouping: true })
+
+    expect(error).toBeUndefined()
+    expect(values).toEqual({ verbose: 3, output: 'dist' })
+  })
+
+  test('counts repeated short options without short grouping', () => {
+    const { values, sources, error } = resolveArgs(args, parseArgs(['-vvv', '-v']))
+
+    expect(error).toBeUndefined()
+    expect(values).toEqual({ verbose: 4 })
+    expect(sources.verbose).toEqual({ kind: 'cli', indices: [0, 1], inputName: '-v' })
+
+    // other characters in the group are the inline value
+    const resolved = resolveArgs(args, parseArgs(['-vvo']))
+    expect(resolved.values).toEqual({ verbose: 0 })
+    expect(resolved.error?.errors.length).toBe(1)
+    const [short] = resolved.error?.errors as ArgResolveError[]
+    expect(short.code).toBe(ArgsValidationErrorKeys.invalidType)
+    expect(short.values.actual).toBe('vo')
+  })
+
+  test('negated option resets the count', () => {
+    const tokens = parseArgs(['-v', '-v', '--no-verbose', '-v'])
+    const { values } = resolveArgs(args, tokens)
+
+    expect(values).toEqual({ verbose: 1 })
+  })
+
+  test('does not take a value', () => {
+    const tokens = parseArgs(['-v', 'file.txt', '--verbose', 'other.txt'])
+    const { values, positionals } = resolveArgs(args, tokens)
+
+    expect(values).toEqual({ verbose: 2 })
+    expect(positionals).toEqual(['file.txt', 'other.txt'])
+  })
+
+  test('reports inline values', () => {
+    const tokens = parseArgs(['-v', '--verbose=3', '-v=2'])
+    const { values, error } = resolveArgs(args, tokens)
+
+    expect(values).toEqual({ verbose: 1 })
+    expect(error?.errors.length).toBe(2)
+    const [long, short] = error?.errors as ArgResolveError[]
+    expect(long.message).toBe("Optional argument '--verbose' or '-v' should be 'count'")
+    expect(long.type).toBe('type')
+    expect(long.code).toBe(ArgsValidationErrorKeys.invalidType)
+    expect(long.values).toEqual({
+      displayName: "'--verbose' or '-v'",
+      name: 'verbose',
+      expected: 'count',
+      actual: '3'
+    })
+    expect(short.values.actual).toBe('2')
+  })
+
+  test('uses default value', () => {
+    const tokens = parseArgs([])
+    const { values, sources } = resolveArgs(args, tokens)
+
+    expect(values).toEqual({ verbose: 0 })
+    expect(sources.verbose).toEqual({ kind: 'default' })
+  })
+
+  test('resolves from environment variables', () => {
+    const tokens = parseArgs([])
+    const schema = { verbose: { ...args.verbose, env: 'VERBOSE' } } as const satisfies Args
+
+    expect(resolveArgs(schema, tokens, { env: { VERBOSE: '2' } }).values).toEqual({
+      verbose: 2
+    })
+
+    const { error } = resolveArgs(schema, tokens, { env: { VERBOSE: 'yes' } })
+    expect((error?.errors[0] as ArgResolveError).message).toBe(
+      "Environment variable 'VERBOSE' should be 'count'"
+    )
+  })
+})
+
+describe('map', () => {
+  const args = {
+    define: {
+      type: 'map',
+      short: 'D',
+      env: 'DEFINE'
+    },
+    header: {
+      type: 'map',
+      separator: ':',
+      duplicateKeys: 'error'
+    }
+  } as const satisfies Args
+
+  test('collects key/value pairs into a record', () => {
+    const tokens = parseArgs(['-D', 'NAME=app', '--define', 'QUERY=a=b', '-D', 'NAME=web'])
+    const { values, sources, error } = resolveArgs(args, tokens)
+
+    expect(error).toBeUndefined()
+    expect(values).toEqual({ define: { NAME: 'web', QUERY: 'a=b' } })
+    expect(sources.define).toEqual({ kind: 'cli', indices: [0, 2, 4], inputName: '-D' })
+  })
+
+  test('splits with a custom separator', () => {
+    const tokens = parseArgs(['--header', 'Accept:text/html', '--header=X-Token:'])
+    const { values, error } = resolveArgs(args, tokens)
+
+    expect(error).toBeUndefined()
+    expect(values).toEqual({ header: { Accept: 'text/html', 'X-Token': '' } })
+  })
+
+  test('reports inputs without a key', () => {
+    const tokens = parseArgs(['--define', 'NAME', '--define', '=value'])
+    const { values, error } = resolveArgs(args, tokens)
+
+    expect(values).toEqual({})
+    expect(error?.errors.map((e: Error) => e.message)).toEqual([
+      "Optional argument '--define' or '-D' should be 'map'",
+      "Optional argument '--define' or '-D' should be 'map'"
+    ])
+  })
+
+  test('reports duplicate keys', () => {
+    const tokens = parseArgs(['--header', 'Accept:text/html', '--header', 'Accept:*/*'])
+    const { values, error } = resolveArgs(args, tokens)
+
+    expect(values).toEqual({ header: { Accept: 'text/html' } })
+    expect(error?.errors).toHaveLength(1)
+    const duplicated = error?.errors[0] as ArgResolveError
+    expect(duplicated).toBeInstanceOf(ArgResolveError)
+    expect(duplicated.type).toBe('type')
+    expect(duplicated.message).toBe("Optional argument '--header' has a duplicate key 'Accept'")
+    expect(duplicated.code).toBe(ArgsValidationErrorKeys.duplicateKey)
+    expect(duplicated.values).toEqual({ displayName: "'--header'", name: 'header', key: 'Accept' })
+  })
+
+  test('resolves an entry from environment variables', () => {
+    const { values, error } = resolveArgs(args, parseArgs([]), { env: { DEFINE: 'NAME=env' } })
+
+    expect(error).toBeUndefined()
+    expect(values).toEqual({ define: { NAME: 'env' } })
+  })
+
+  test('resolves objects and arrays from configuration layers', () => {
+    const { values, error } = resolveArgs(args, parseArgs([]), {
+      config: [
+        {
+          name: 'app.json',
+          values: { define: { NAME: 'app', PORT: 8080 }, header: ['Accept:text/html'] }
+        }
+      ]
+    })
+
+    expect(error).toBeUndefined()
+    expect(values).toEqual({
+      define: { NAME: 'app', PORT: '8080' },
+      header: { Accept: 'text/html' }
+    })
+  })
+
+  test('reports duplicate keys from configuration layers', () => {
+    const { error } = resolveArgs(args, parseArgs([]), {
+      config: [{ name: 'app.json', values: { header: ['Accept:text/html', 'Accept:*/*'] } }]
+    })
+
+    expect(error?.errors.map((e: Error) => e.message)).toEqual([
+      "Configuration key 'header' in 'app.json' has a duplicate key 'Accept'"
+    ])
+  })
+})
+
+describe('nargs', () => {
+  const args = {
+    files: {
+      type: 'string',
+      short: 'f',
+      nargs: '+'
+    },
+    point: {
+      type: 'number',
+      nargs: 2
+    },
+    exclude: {
+      type: 'string',
+      nargs: '*',
+      multiple: true
+    },
+    verbose: {
+      type: 'boolean',
+      short: 'v'
+    }
+  } as const satisfies Args
+
+  test('consumes positional tokens until the next option', () => {
+    const tokens = parseArgs(['--files', 'a.ts', 'b.ts', 'c.ts', '-v', 'd.ts'])
+    const { values, positionals, sources, error } = resolveArgs(args, tokens)
+
+    expect(error).toBeUndefined()
+    expect(values).toEqual({ files: ['a.ts', 'b.ts', 'c.ts'], verbose: true })
+    expect(positionals).toEqual(['d.ts'])
+    expect(sources.files).toEqual({ kind: 'cli', indices: [0], inputName: '--files' })
+  })
+
+  test('consumes positional tokens after short options', () => {
+    const tokens = parseArgs(['-vf', 'a.ts', 'b.ts'])
+    const { values, error } = resolveArgs(args, tokens, { shortGrouping: true })
+
+    expect(error).toBeUndefined()
+    expect(values).toEqual({ files: ['a.ts', 'b.ts'], verbose: true })
+  })
+
+  test('stops at the option terminator', () => {
+    const tokens = parseArgs(['--files', 'a.ts', '--', 'b.ts'])
+    const { values, rest, error } = resolveArgs(args, tokens)
+
+    expect(error).toBeUndefined()
+    expect(values).toEqual({ files: ['a.ts'] })
+    expect(rest).toEqual(['b.ts'])
+  })
+
+  test('consumes a fixed number of values', () => {
+    const tokens = parseArgs(['--point', '10', '20', '30'])
+    const { values, positionals, error } = resolveArgs(args, tokens)
+
+    expect(error).toBeUndefined()
+    expect(values).toEqual({ point: [10, 20] })
+    expect(positionals).toEqual(['30'])
+  })
+
+  test('inline values are a single value', () => {
+    const tokens = parseArgs(['--files=a.ts', 'b.ts'])
+    const { values, positionals, error } = resolveArgs(args, tokens)
+
+    expect(error).toBeUndefined()
+    expect(values).toEqual({ files: ['a.ts'] })
+    expect(positionals).toEqual(['b.ts'])
+  })
+
+  test('accepts zero values and flattens occurrences with multiple', () => {
+    const tokens = parseArgs(['--exclude', '--exclude', 'a', 'b', '--exclude', 'c'])
+    const { values, error } = resolveArgs(args, tokens)
+
+    expect(error).toBeUndefined()
+    expect(values).toEqual({ exclude: ['a', 'b', 'c'] })
+  })
+
+  test('last occurrence wins without multiple', () => {
+    const tokens = parseArgs(['--files', 'a.ts', '--files', 'b.ts', 'c.ts'])
+    const { values, error } = resolveArgs(args, tokens)
+
+    expect(error).toBeUndefined()
+    expect(values).toEqual({ files: ['b.ts', 'c.ts'] })
+  })
+
+  test('reports missing values', () => {
+    const tokens = parseArgs(['--files', '--point', '10'])
+    const { values, error } = resolveArgs(args, tokens)
+
+    expect(values).toEqual({})
+    expect(error?.errors.map((e: Error) => e.message)).toEqual([
+      "Optional argument '--files' or '-f' requires at least 1 value, but got 0",
+      "Optional argument '--point' requires 2 values, but got 1"
+    ])
+    const missing = error?.errors[1] as ArgResolveError
+    expect(missing.type).toBe('required')
+    expect(missing.code).toBe(ArgsValidationErrorKeys.requiredValues)
+    expect(missing.values).toEqual({
+      displayName: "'--point'",
+      name: 'point',
+      min: 2,
+      max: 2,
+      actual: 1
+    })
+  })
+
+  test('reports invalid values', () => {
+    const tokens = parseArgs(['--point', '10', 'y'])
+    const { error } = resolveArgs(args, tokens)
+
+    expect(error?.errors.map((e: Error) => e.message)).toEqual([
+      "Optional argument '--point' should be 'number'"
+    ])
+  })
+
+  test('supports min and max', () => {
+    const args = {
+      tags: {
+        type: 'string',
+        nargs: { min: 2, max: 3 }
+      }
+    } as const satisfies Args
+
+    const { values, positionals } = resolveArgs(args, parseArgs(['--tags', 'a', 'b', 'c', 'd']))
+    expect(values).toEqual({ tags: ['a', 'b', 'c'] })
+    expect(positionals).toEqual(['d'])
+
+    const { error } = resolveArgs(args, parseArgs(['--tags', 'a']))
+    expect(error?.errors.map((e: Error) => e.message)).toEqual([
+      "Optional argument '--tags' requires at least 2 values, but got 1"
+    ])
+  })
+
+  test('preserves positional tokens for required positional arguments', () => {
+    const args = {
+      files: {
+        type: 'string',
+        nargs: '+'
+      },
+      source: {
+        type: 'positional'
+      },
+      destination: {
+        type: 'positional'
+      }
+    } as const satisfies Args
+    const tokens = parseArgs(['--files', 'a.ts', 'b.ts', 'src', 'dist'])
+    const { values, positionals, error } = resolveArgs(args, tokens)
+
+    expect(error).toBeUndefined()
+    expect(values).toEqual({ files: ['a.ts', 'b.ts'], source: 'src', destination: 'dist' })
+    expect(positionals).toEqual(['src', 'dist'])
+  })
+
+  test('keeps the minimum number of values for required positional arguments', () => {
+    const args = {
+      files: {
+        type: 'string',
+        nargs: '+'
+      },
+      source: {
+        type: 'positional'
+      },
+      destination: {
+        type: 'positional'
+      }
+    } as const satisfies Args
+    const tokens = parseArgs(['--files', 'a.ts', 'src'])
+    const { values, error } = resolveArgs(args, tokens)
+
+    expect(values).toEqual({ files: ['a.ts'], source: 'src' })
+    expect(error?.errors.map((e: Error) => e.message)).toEqual([
+      "Positional argument 'destination' is required"
+    ])
+  })
+
+  test('parses each value of items by its own schema', () => {
+    const args = {
+      level: {
+        type: 'custom',
+        items: [{ type: 'enum', choices: ['debug', 'info'] }, { type: 'number' }],
+        multiple: true,
+        parse: (value: string) => value.split(',')
+      }
+    } as const satisfies Args
+    const tokens = parseArgs(['--level', 'debug', '1', '--level', 'info', '2', 'x'])
+    const { values, positionals, error } = resolveArgs(args, tokens)
+
+    expect(error).toBeUndefined()
+    expect(values).toEqual({
+      level: [
+        ['debug', 1],
+        ['info', 2]
+      ]
+    })
+    expect(positionals).toEqual(['x'])
+  })
+
+  test('resolves environment variables and configuration layers as arrays', () => {
+    const args = {
+      files: {
+        type: 'string',
+        nargs: '+',
+        env: 'FILES'
+      }
+    } as const satisfies Args
+
+    expect(resolveArgs(args, parseArgs([]), { env: { FILES: 'a.ts' } }).values).toEqual({
+      files: ['a.ts']
+    })
+    expect(
+      resolveArgs(args, parseArgs([]), {
+        config: [{ name: 'app.json', values: { files: ['a.ts', 'b.ts'] } }]
+      }).values
+    ).toEqual({ files: ['a.ts', 'b.ts'] })
+  })
+})
+
+describe('default values', () => {
+  const args = {
+    input: {
+      type: 'positional'
+    },
+    out: {
+      type: 'string',
+      default: values => `${values.input as string}.js`
+    },
+    map: {
+      type: 'string',
+      default: values => `${values.out as string}.map`
+    },
+    tags: {
+      type: 'string',
+      multiple: true,
+      default: ['latest']
+    },
+    date: {
+      type: 'custom',
+      parse: (value: string) => new Date(value),
+      default: new Date(0)
+    }
+  } as const satisfies Args
+
+  test('evaluates default factories with the resolved values', () => {
+    const tokens = parseArgs(['main.ts'])
+    const { values, sources, error } = resolveArgs(args, tokens)
+
+    expect(error).toBeUndefined()
+    expect(values).toEqual({
+      input: 'main.ts',
+      out: 'main.ts.js',
+      map: 'main.ts.js.map',
+      tags: ['latest'],
+      date: new Date(0)
+    })
+    expect(sources.out).toEqual({ kind: 'implied' })
+    expect(sources.tags).toEqual({ kind: 'default' })
+  })
+
+  test('does not evaluate default factories for provided arguments', () => {
+    const tokens = parseArgs(['main.ts', '--out', 'dist/index.js', '--tags', 'next'])
+    const { values, error } = resolveArgs(args, tokens)
+
+    expect(error).toBeUndefined()
+    expect(values).toMatchObject({
+      out: 'dist/index.js',
+      map: 'dist/index.js.map',
+      tags: ['next']
+    })
+  })
+
+  test('default factories see values from configuration layers', () => {
+    const { values } = resolveArgs(args, parseArgs(['main.ts']), {
+      config: [{ name: 'app.json', values: { out: 'app.js' } }]
+    })
+
+    expect(values).toMatchObject({ out: 'app.js', map: 'app.js.map' })
+  })
+
+  test('leaves the argument unset when the factory returns undefined', () => {
+    const args = {
+      out: {
+        type: 'string',
+        default: () => undefined
+      }
+    } as const satisfies Args
+    const { values, sources } = resolveArgs(args, parseArgs([]))
+
+    expect(values).toEqual({})
+    expect(sources).toEqual({})
+  })
+
+  test('collects validation errors thrown from default factories', () => {
+    const args = {
+      out: {
+        type: 'string',
+        default: () => {
+          throw new ArgsValidationError('Cannot infer the output')
+        }
+      }
+    } as const satisfies Args
+    const { error } = resolveArgs(args, parseArgs([]))
+
+    expect(error?.errors.map((e: Error) => e.message)).toEqual(['Cannot infer the output'])
+  })
+})
+
+describe('configuration layers', () => {
+  const args = {
+    port: {
+      type: 'number',
+      short: 'p',
+      env: 'PORT',
+      default: 8080
+    },
+    host: {
+      type: 'string',
+      required: true
+    },
+    level: {
+      type: 'enum',
+      choices: ['debug', 'info', 'warn']
+    },
+    tags: {
+      type: 'string',
+      multiple: true
+    },
+    watch: {
+      type: 'boolean',
+      conflicts: 'once'
+    },
+    once: {
+      type: 'boolean'
+    },
+    file: {
+      type: 'positional',
+      required: false
+    }
+  } as const satisfies Args
+
+  test('falls back to configuration layers', () => {
+    const tokens = parseArgs([])
+    const { values, explicit, sources, error } = resolveArgs(args, tokens, {
+      config: [
+        {
+          name: 'app.json',
+          values: { port: 3000, host: 'localhost', level: 'info', tags: ['a', 'b'], watch: true }
+        }
+      ]
+    })
+
+    expect(error).toBeUndefined()
+    expect(values).toEqual({
+      port: 3000,
+      host: 'localhost',
+      level: 'info',
+      tags: ['a', 'b'],
+      watch: true
+    })
+    expect(explicit).toMatchObject({ port: false, host: false, watch: false })
+    expect(sources).toEqual({
+      port: { kind: 'config', layer: 'app.json' },
+      host: { kind: 'config', layer: 'app.json' },
+      level: { kind: 'config', layer: 'app.json' },
+      tags: { kind: 'config', layer: 'app.json' },
+      watch: { kind: 'config', layer: 'app.json' }
+    })
+  })
+
+  test('layers are ordered by precedence', () => {
+    const tokens = parseArgs([])
+    const { values, sources } = resolveArgs(args, tokens, {
+      config: [
+        { name: 'project.json', values: { host: 'example.com' } },
+        { name: 'user.json', values: { host: 'localhost', port: '3000' } }
+      ]
+    })
+
+    expect(values).toEqual({ host: 'example.com', port: 3000 })
+    expect(sources).toMatchObject({
+      host: { kind: 'config', layer: 'project.json' },
+      port: { kind: 'config', layer: 'user.json' }
+    })
+  })
+
+  test('command line arguments and environment variables take precedence', () => {
+    const tokens = parseArgs(['--host', 'cli'])
+    const { values, sources } = resolveArgs(args, tokens, {
+      env: { PORT: '9131' },
+      config: [{ name: 'app.json', values: { host: 'localhost', port: 3000 } }]
+    })
+
+    expect(values).toEqual({ host: 'cli', port: 9131 })
+    expect(sources).toMatchObject({
+      host: { kind: 'cli' },
+      port: { kind: 'env', env: 'PORT' }
+    })
+  })
+
+  test('ignores positional arguments and nullish values', () => {
+    const tokens = parseArgs(['--host', 'localhost'])
+    const { values } = resolveArgs(args, tokens, {
+      config: [{ name: 'app.json', values: { file: 'app.js', port: null } }]
+    })
+
+    expect(values).toEqual({ host: 'localhost', port: 8080 })
+  })
+
+  test('reports invalid values with layer name and key', () => {
+    const tokens = parseArgs(['--host', 'localhost'])
+    const { values, error } = resolveArgs(args, tokens, {
+      config: [
+        {
+          name: 'app.json',
+          values: { port: 'abc', level: 'inf', tags: ['a', { b: 1 }], watch: 'maybe' }
+        }
+      ]
+    })
+
+    expect(values).toEqual({ host: 'localhost', port: 8080 })
+    expect(error?.errors.length).toBe(4)
+    const [port, level, tags, watch] = error?.errors as ArgResolveError[]
+    expect(port.message).toBe("Configuration key 'port' in 'app.json' should be 'number'")
+    expect(port.values).toEqual({
+      displayName: "'--port' or '-p'",
+      name: 'port',
+      expected: 'number',
+      actual: 'abc',
+      layer: 'app.json',
+      key: 'port'
+    })
+    expect(level.message).toBe(
+      "Configuration key 'level' in 'app.json' should be chosen from 'enum' [\"debug\", \"info\", \"warn\"] values. Did you mean 'info'?"
     )
-    expect(values.enableLogging).toBe(false)
-    expect(values.file).toBe('app.js')
-    expect(positionals).toEqual(['app.js'])
+    expect(level.code).toBe(ArgsValidationErrorKeys.invalidChoice)
+    expect(level.values).toMatchObject({ layer: 'app.json', key: 'level' })
+    expect(tags.message).toBe("Configuration key 'tags' in 'app.json' should be 'string'")
+    expect(watch.message).toBe("Configuration key 'watch' in 'app.json' should be 'boolean'")
+  })
+
+  test('reports conflicts within a layer', () => {
+    const tokens = parseArgs(['--host', 'localhost'])
+    const { error } = resolveArgs(args, tokens, {
+      config: [{ name: 'app.json', values: { watch: true, once: true } }]
+    })
+
+    expect(error?.errors.length).toBe(1)
+    const conflict = error?.errors[0] as ArgResolveError
+    expect(conflict.message).toBe("Configuration key 'watch' conflicts with 'once' in 'app.json'")
+    expect(conflict.type).toBe('conflict')
+    expect(conflict.code).toBe(ArgsValidationErrorKeys.conflict)
+    expect(conflict.values).toEqual({
+      displayName: "'--watch'",
+      name: 'watch',
+      conflictingDisplayName: "'--once'",
+      conflicting: 'once',
+      layer: 'app.json'
+    })
+  })
+
+  test('reports conflicts across layers', () => {
+    const tokens = parseArgs(['--host', 'localhost'])
+    const { error } = resolveArgs(args, tokens, {
+      config: [
+        { name: 'a.json', values: { watch: true } },
+        { name: 'b.json', values: { once: true } }
+      ]
+    })
+
+    expect(error?.errors.length).toBe(1)
+    const conflict = error?.errors[0] as ArgResolveError
+    expect(conflict.message).toBe(
+      "Configuration key 'watch' in 'a.json' conflicts with configuration key 'once' in 'b.json'"
+    )
+    expect(conflict.code).toBe(ArgsValidationErrorKeys.conflict)
+    expect(conflict.values).toEqual({
+      displayName: "'--watch'",
+      name: 'watch',
+      conflictingDisplayName: "'--once'",
+      conflicting: 'once',
+      layer: 'a.json',
+      conflictingLayer: 'b.json'
+    })
+  })
+
+  test('reports conflicts between command line and layers', () => {
+    const tokens = parseArgs(['--host', 'localhost', '--watch'])
+    const { error } = resolveArgs(args, tokens, {
+      config: [{ name: 'app.json', values: { once: true } }]
+    })
+
+    expect(error?.errors.length).toBe(1)
+    const conflict = error?.errors[0] as ArgResolveError
+    expect(conflict.message).toBe(
+      "Optional argument '--watch' conflicts with configuration key 'once' in 'app.json'"
+    )
+    expect(conflict.values).toEqual({
+      displayName: "'--watch'",
+      name: 'watch',
+      conflictingDisplayName: "'--once'",
+      conflicting: 'once',
+      conflictingLayer: 'app.json'
+    })
+  })
+
+  test('reports unknown keys in strict mode', () => {
+    const tokens = parseArgs(['--host', 'localhost'])
+    const layer = { name: 'app.json', values: { prot: 3000, file: 'app.js' } }
+
+    expect(resolveArgs(args, tokens, { config: [layer] }).error).toBeUndefined()
+
+    const { error } = resolveArgs(args, tokens, { strict: true, config: [layer] })
+    expect(error?.errors.length).toBe(2)
+    const [prot, file] = error?.errors as ArgResolveError[]
+    expect(prot.message).toBe("Unknown configuration key 'prot' in 'app.json'")
+    expect(prot.type).toBe('unknown')
+    expect(prot.code).toBe(ArgsValidationErrorKeys.unknownOption)
+    expect(prot.values).toEqual({ name: 'prot', layer: 'app.json', key: 'prot' })
+    expect(file.message).toBe("Unknown configuration key 'file' in 'app.json'")
   })
 })
 
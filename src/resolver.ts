@@ -10,7 +10,13 @@
  */
 
 import { hasLongOptionPrefix, isShortOption } from './parser.ts'
-import { formatChoices, kebabnize } from './utils.ts'
+import {
+  findSuggestions,
+  formatChoices,
+  formatList,
+  formatSuggestions,
+  kebabnize
+} from './utils.ts'
 
 import type { ArgToken } from './parser.ts'
 
@@ -19,7 +25,7 @@ import type { ArgToken } from './parser.ts'
  *
  * This schema is similar to the schema of Node.js `util.parseArgs` but with extended features:
  * - Additional `required`, `description`, and `hidden` properties
- * - Extended `type` support: 'string', 'boolean', 'number', 'enum', 'positional', 'custom'
+ * - Extended `type` support: 'string', 'boolean', 'number', 'enum', 'count', 'map', 'positional', 'custom'
  * - Simplified `default` property (single type, not union types)
  *
  * @example
@@ -62,6 +68,8 @@ export interface ArgSchema {
    * - `'boolean'`: `true`/`false` flag (can be negatable with `--no-` prefix)
    * - `'number'`: Numeric value (parsed as integer or float)
    * - `'enum'`: One of predefined string values (requires `choices` property)
+   * - `'count'`: Number of occurrences of a flag (`-vvv` is `3` with short grouping), inline values like `--verbose=3` are reported as invalid type
+   * - `'map'`: Repeated `key=value` pairs collected into a record
    * - `'positional'`: Non-option argument by position
    * - `'custom'`: Custom parsing with user-defined `parse` function
    *
@@ -73,12 +81,14 @@ export interface ArgSchema {
    *   verbose: { type: 'boolean' },     // --verbose or --no-verbose
    *   port: { type: 'number' },         // --port 3000
    *   level: { type: 'enum', choices: ['debug', 'info'] },
+   *   verbosity: { type: 'count' },    // -v -v or --verbosity --verbosity
+   *   define: { type: 'map' },          // --define KEY=VALUE --define OTHER=VALUE
    *   file: { type: 'positional' },     // first positional arg
    *   config: { type: 'custom', parse: JSON.parse }
    * }
    * ```
    */
-  type: 'string' | 'boolean' | 'number' | 'enum' | 'positional' | 'custom'
+  type: 'string' | 'boolean' | 'number' | 'enum' | 'count' | 'map' | 'positional' | 'custom'
   /**
    * Single character alias for the long option name.
    *
@@ -101,6 +111,26 @@ export interface ArgSchema {
    * ```
    */
   short?: string
+  /**
+   * Additional names for the option.
+   *
+   * Single character names are short aliases (e.g. `-O`), and other names are long aliases (e.g. `--out`),
+   * which are matched as is without kebab-case conversion.
+   * For negatable `boolean` and `count` arguments, `--no-<alias>` is also accepted.
+   * Only valid for non-positional argument types.
+   *
+   * @example
+   * ```ts
+   * {
+   *   output: {
+   *     type: 'string',
+   *     short: 'o',
+   *     aliases: ['out', 'dest', 'O']  // --output, --out, --dest, -o, or -O
+   *   }
+   * }
+   * ```
+   */
+  aliases?: string[]
   /**
    * Human-readable description of the argument's purpose.
    *
@@ -197,6 +227,64 @@ export interface ArgSchema {
    * ```
    */
   multiple?: true
+  /**
+   * Number of values consumed by one occurrence of the option.
+   *
+   * - `'+'`: One or more values
+   * - `'*'`: Zero or more values
+   * - `number`: Exactly the number of values
+   * - `{ min, max }`: Between `min` (default `0`) and `max` (default unlimited) values
+   *
+   * The option greedily consumes the following positional tokens until the next option,
+   * the option terminator `--`, or the maximum, while preserving positional tokens for
+   * required positional arguments. The resolved value becomes an array.
+   * Without `multiple: true`, the last occurrence wins. With `multiple: true`, the values of
+   * all occurrences are flattened into one array.
+   *
+   * When fewer values than the minimum are provided, an `ArgResolveError` with type 'required' is reported.
+   *
+   * Only applicable to non-positional arguments that take a value.
+   *
+   * @example
+   * Variadic options:
+   * ```ts
+   * {
+   *   files: {
+   *     type: 'string',
+   *     nargs: '+'  // --files a.ts b.ts c.ts → ['a.ts', 'b.ts', 'c.ts']
+   *   },
+   *   point: {
+   *     type: 'number',
+   *     nargs: 2    // --point 10 20 → [10, 20]
+   *   }
+   * }
+   * ```
+   */
+  nargs?: '+' | '*' | number | { min?: number; max?: number }
+  /**
+   * Schemas for each value of a fixed-arity option.
+   *
+   * One occurrence of the option consumes exactly as many values as the schemas,
+   * and each value is parsed by the schema at the same position.
+   * The resolved value is a tuple, and with `multiple: true`, an array of tuples.
+   *
+   * When fewer values are provided, an `ArgResolveError` with type 'required' is reported.
+   * Values from environment variables and configuration layers are parsed by `parse`.
+   *
+   * @example
+   * Fixed-arity option:
+   * ```ts
+   * {
+   *   size: {
+   *     type: 'custom',
+   *     items: [{ type: 'number' }, { type: 'number' }],
+   *     parse: (value: string) => value.split(',').map(Number) as [number, number]
+   *   }
+   *   // Usage: --size 80 24 → [80, 24]
+   * }
+   * ```
+   */
+  items?: ArgSchema[]
   /**
    * Enables negation for boolean arguments using `--no-` prefix.
    *
@@ -204,7 +292,8 @@ export interface ArgSchema {
    * using `--no-option-name`. When `false` or omitted, only positive
    * form is available.
    *
-   * Only applicable to `type: 'boolean'` arguments.
+   * Only applicable to `type: 'boolean'` and `type: 'count'` arguments.
+   * For `count`, `--no-option-name` resets the count to `0`.
    *
    * @example
    * Negatable boolean:
@@ -248,6 +337,41 @@ export interface ArgSchema {
    * ```
    */
   choices?: string[] | readonly string[]
+  /**
+   * Separator between the key and the value of `type: 'map'` arguments.
+   *
+   * The input is split at the first occurrence of the separator,
+   * so the value may contain the separator itself.
+   *
+   * For other types, the separator marks the parsed value as a list of items
+   * (e.g. the `list` combinator). With `multiple: true`, the items of each occurrence
+   * are flattened into one array.
+   *
+   * @default '='
+   *
+   * @example
+   * Colon separated pairs:
+   * ```ts
+   * {
+   *   header: {
+   *     type: 'map',
+   *     separator: ':'
+   *   }
+   *   // Usage: --header Accept:text/html --header X-Token:abc
+   * }
+   * ```
+   */
+  separator?: string
+  /**
+   * How repeated keys of `type: 'map'` arguments are handled.
+   *
+   * - `'last'`: The last value wins
+   * - `'first'`: The first value wins
+   * - `'error'`: An `ArgResolveError` with type 'type' is reported
+   *
+   * @default 'last'
+   */
+  duplicateKeys?: 'last' | 'first' | 'error'
   /**
    * Default value used when the argument is not provided.
    *
@@ -257,6 +381,12 @@ export interface ArgSchema {
    * - `number` type: number default
    * - `enum` type: must be one of the `choices` values
    * - `positional`/`custom` type: string, boolean, or number default
+   * - `multiple: true`, `nargs`, `map`, and `custom` types: arrays or objects are also accepted
+   *
+   * A function is a default factory. It is called with the resolved values after command line
+   * arguments, environment variables, and configuration layers are resolved, in the order of
+   * the arguments schema, so a default can depend on other arguments. With `resolveArgsAsync`,
+   * it is called with the awaited values.
    *
    * For single-value positional arguments, the default is used when the positional
    * value is missing or when the value is preserved for later required positional
@@ -282,11 +412,20 @@ export interface ArgSchema {
    *     type: 'enum',
    *     choices: ['low', 'high'],
    *     default: 'low'        // must be in choices
+   *   },
+   *   tags: {
+   *     type: 'string',
+   *     multiple: true,
+   *     default: ['latest']   // array default
+   *   },
+   *   out: {
+   *     type: 'string',
+   *     default: values => `${values.input}.js`  // default factory
    *   }
    * }
    * ```
    */
-  default?: string | boolean | number
+  default?: string | boolean | number | object | ArgDefaultFactory
   /**
    * Converts the argument name from camelCase to kebab-case for CLI usage.
    *
@@ -318,7 +457,8 @@ export interface ArgSchema {
    * Names of other options that conflict with this option.
    *
    * When this option is used together with any of the conflicting options,
-   * an `ArgResolveError` with type 'conflict' will be thrown.
+   * an `ArgResolveError` with type 'conflict' is reported for each conflicting pair.
+   * A pair is reported once, even if both options declare the conflict.
    *
    * Conflicts only need to be defined on one side - if option A defines a conflict
    * with option B, the conflict is automatically detected when both are used,
@@ -401,6 +541,103 @@ export interface ArgSchema {
    * ```
    */
   conflicts?: string | string[]
+  /**
+   * Names of other arguments that must be provided together with this argument.
+   *
+   * When this argument is provided (from command line, environment variables, or configuration layers),
+   * each of the specified arguments must also be provided. Default values do not satisfy the dependency.
+   * Use the property key (not the kebab-case CLI name) to refer to the arguments.
+   *
+   * @example
+   * ```ts
+   * {
+   *   tlsKey: {
+   *     type: 'string',
+   *     toKebab: true,
+   *     requires: 'tlsCert'  // --tls-key cannot be used without --tls-cert
+   *   },
+   *   tlsCert: {
+   *     type: 'string',
+   *     toKebab: true
+   *   }
+   * }
+   * // Error: "Optional argument '--tls-key' requires '--tls-cert'"
+   * ```
+   */
+  requires?: string | string[]
+  /**
+   * Names of environment variables to consult when the option is not provided on the command line.
+   *
+   * The variables are looked up in order from the `env` record passed to `resolveArgs`, and the
+   * first non-empty value is converted and validated in the same way as a command line value.
+   * `boolean` options accept `true`/`false`, `yes`/`no`, `on`/`off`, and `1`/`0`.
+   *
+   * Command line values take precedence over environment variables, which take precedence over
+   * configuration layers and `default`.
+   * Values provided from environment variables are not marked as explicitly provided.
+   *
+   * Only valid for non-positional argument types.
+   *
+   * @example
+   * Environment variable fallback:
+   * ```ts
+   * {
+   *   port: {
+   *     type: 'number',
+   *     env: 'PORT',  // --port 3000 or PORT=3000
+   *     default: 8080
+   *   },
+   *   token: {
+   *     type: 'string',
+   *     env: ['APP_TOKEN', 'GITHUB_TOKEN']  // first non-empty variable wins
+   *   }
+   * }
+   * ```
+   */
+  env?: string | string[]
+  /**
+   * Marks the argument as deprecated.
+   *
+   * When the argument is provided (from command line, environment variables, or configuration layers),
+   * a warning is reported in `warnings` instead of failing.
+   * Accepts a message, or the version since when the argument is deprecated and its replacement.
+   * The replacement is a property key of the arguments schema, or a free text.
+   *
+   * @example
+   * ```ts
+   * {
+   *   color: {
+   *     type: 'boolean',
+   *     deprecated: { since: '2.0.0', replacement: 'theme' }
+   *   },
+   *   theme: {
+   *     type: 'string'
+   *   }
+   * }
+   * // Warning: "Optional argument '--color' is deprecated since 2.0.0. Use '--theme' instead"
+   * ```
+   */
+  deprecated?: string | ArgDeprecation
+  /**
+   * Deprecated long option names, which still resolve into this argument.
+   *
+   * Use it when renaming an option. When a deprecated name is used, a warning is reported in `warnings`.
+   * For negatable `boolean` and `count` arguments, `--no-<name>` is also accepted.
+   * Only valid for non-positional argument types.
+   *
+   * @example
+   * ```ts
+   * {
+   *   outDir: {
+   *     type: 'string',
+   *     toKebab: true,
+   *     deprecatedNames: ['output-dir']  // --output-dir still works
+   *   }
+   * }
+   * // Warning: "Optional argument '--output-dir' is deprecated. Use '--out-dir' instead"
+   * ```
+   */
+  deprecatedNames?: string[]
   /**
    * Display name hint for help text generation.
    *
@@ -431,6 +668,9 @@ export interface ArgSchema {
    *
    * The function's return type becomes the resolved argument type.
    *
+   * For `type: 'map'` arguments, receives the whole `key=value` input and must
+   * return a `[key, value]` entry. The resolved argument type is `Record<string, value>`.
+   *
    * @param value - Raw string value from command line
    * @returns Parsed value of any type
    * @throws {Error} Error or subclass when value is invalid
@@ -466,11 +706,26 @@ export interface ArgSchema {
   parse?: (value: string) => any
 }
 
+/**
+ * Deprecation details of an argument.
+ */
+export interface ArgDeprecation {
+  /**
+   * Version since when the argument is deprecated.
+   */
+  since?: string
+  /**
+   * Replacement of the argument, a property key of the arguments schema or a free text.
+   */
+  replacement?: string
+}
+
 /**
  * Machine-readable error codes for {@link ArgsValidationError}.
  *
  * Each code identifies a validation failure category and is also suitable as an
  * i18n resource key for localized rendering.
+ * Codes prefixed with `warn:` identify warnings, which are reported in `warnings` instead of `error`.
  */
 export const ArgsValidationErrorKeys = {
   requiredOption: 'err:arg:required-option',
@@ -478,7 +733,16 @@ export const ArgsValidationErrorKeys = {
   invalidType: 'err:arg:invalid-type',
   invalidChoice: 'err:arg:invalid-choice',
   customParse: 'err:arg:custom-parse',
-  unknownOption: 'err:arg:unknown-option'
+  requiredValues: 'err:arg:required-values',
+  duplicateKey: 'err:arg:duplicate-key',
+  unknownOption: 'err:arg:unknown-option',
+  ambiguousOption: 'err:arg:ambiguous-option',
+  conflict: 'err:arg:conflict',
+  groupConflict: 'err:arg:group-conflict',
+  groupRequired: 'err:arg:group-required',
+  missingDependency: 'err:arg:missing-dependency',
+  deprecatedOption: 'warn:arg:deprecated-option',
+  deprecatedName: 'warn:arg:deprecated-name'
 } as const
 
 /**
@@ -549,6 +813,14 @@ export interface Args {
   [option: string]: ArgSchema
 }
 
+/**
+ * A factory of the default value, which is called with the resolved values of the other arguments.
+ *
+ * @param values - The resolved values, including defaults of the preceding arguments
+ * @returns The default value, or `undefined` to leave the argument unset
+ */
+export type ArgDefaultFactory = (values: Record<string, unknown>) => unknown
+
 /**
  * An object that contains the values of the arguments.
  *
@@ -565,6 +837,19 @@ export type ArgValues<T> = T extends Args
       [option: string]: string | boolean | number | (string | boolean | number)[] | undefined
     }
 
+/**
+ * An object that contains the awaited values of the arguments, resolved by {@link resolveArgsAsync}.
+ *
+ * @typeParam T - {@link Args | Arguments} which is an object that defines the command line arguments.
+ */
+export type AsyncArgValues<T> = AwaitedArgValues<ArgValues<T>>
+
+type AwaitedArgValues<V> = {
+  [K in keyof V]: AwaitedArgValue<V[K]>
+}
+
+type AwaitedArgValue<V> = V extends readonly (infer E)[] ? Awaited<E>[] : Awaited<V>
+
 /**
  * Extracts the value type from the argument schema.
  *
@@ -579,20 +864,63 @@ export type ExtractOptionValue<A extends ArgSchema> = undefined extends A['parse
       ? ResolveOptionValue<A, boolean>
       : A['type'] extends 'number'
         ? ResolveOptionValue<A, number>
-        : A['type'] extends 'positional'
-          ? ResolveOptionValue<A, string>
-          : A['type'] extends 'enum'
-            ? A['choices'] extends string[] | readonly string[]
-              ? ResolveOptionValue<A, A['choices'][number]>
-              : never
-            : A['type'] extends 'custom'
-              ? never
-              : ResolveOptionValue<A, string | boolean | number>
+        : A['type'] extends 'count'
+          ? number
+          : A['type'] extends 'map'
+            ? Record<string, string>
+            : A['type'] extends 'positional'
+              ? ResolveOptionValue<A, string>
+              : A['type'] extends 'enum'
+                ? A['choices'] extends string[] | readonly string[]
+                  ? ResolveOptionValue<A, A['choices'][number]>
+                  : never
+                : A['type'] extends 'custom'
+                  ? never
+                  : ResolveOptionValue<A, string | boolean | number>
   : A['parse'] extends (value: string) => infer R
-    ? ResolveOptionValue<A, R>
+    ? R extends ArgMapEntry<string, infer V>
+      ? Record<string, V>
+      : R extends ArgListValue<infer E>
+        ? E[]
+        : A['type'] extends 'map'
+          ? R extends readonly [unknown, infer V]
+            ? Record<string, V>
+            : never
+          : ResolveOptionValue<A, R>
     : never
 
-type ResolveOptionValue<A extends ArgSchema, T> = A['multiple'] extends true ? T[] : T
+type ResolveOptionValue<A extends ArgSchema, T> = A['multiple'] extends true
+  ? T[]
+  : undefined extends A['nargs']
+    ? T
+    : T[]
+
+declare const argMapEntry: unique symbol
+
+/**
+ * A `[key, value]` entry returned by the parse function of `type: 'map'` arguments.
+ *
+ * The entry is branded, so that `map` schemas are still inferred as records through the modifier combinators.
+ *
+ * @typeParam K - The key type.
+ * @typeParam V - The value type.
+ */
+export type ArgMapEntry<K extends string = string, V = unknown> = readonly [key: K, value: V] & {
+  readonly [argMapEntry]: true
+}
+
+declare const argListValue: unique symbol
+
+/**
+ * Items returned by the parse function of list schemas, which are split with the `separator`.
+ *
+ * The items are branded, so that list schemas with `multiple: true` are inferred as a flattened array.
+ *
+ * @typeParam T - The item type.
+ */
+export type ArgListValue<T = unknown> = T[] & {
+  readonly [argListValue]: true
+}
 
 /**
  * Resolved argument values.
@@ -659,8 +987,10 @@ type IsRequiredPositionalArg<A extends ArgSchema> = A['type'] extends 'positiona
 
 /**
  * An arguments for {@link resolveArgs | resolve arguments}.
+ *
+ * @typeParam A - {@link Args | Arguments schema}, which is an object that defines the command line arguments.
  */
-export interface ResolveArgs {
+export interface ResolveArgs<A extends Args = Args> {
   /**
    * Whether to group short arguments.
    *
@@ -681,6 +1011,182 @@ export interface ResolveArgs {
    * @default false
    */
   toKebab?: boolean
+  /**
+   * Whether to report option tokens that do not match any argument schema.
+   *
+   * When `true`, each unknown long option, short option, and `--no-` form is reported as an {@link ArgResolveError} with the `'unknown'` type and {@link ArgsValidationErrorKeys.unknownOption} code, instead of being silently ignored.
+   *
+   * @default false
+   */
+  strict?: boolean
+  /**
+   * Environment variables consulted for arguments that declare {@link ArgSchema.env | env}.
+   *
+   * The resolver never reads `process.env` by itself, pass it explicitly to enable the fallback.
+   *
+   * @default undefined
+   */
+  env?: Record<string, string | undefined>
+  /**
+   * Configuration layers consulted for options that are not provided on the command line or from environment variables.
+   *
+   * Layers are ordered by precedence, the first layer that has a value for an option wins.
+   * See {@link ArgConfigLayer} for how values are validated.
+   *
+   * @default undefined
+   */
+  config?: ArgConfigLayer[]
+  /**
+   * Constraints over groups of arguments, checked after resolution.
+   *
+   * See {@link ArgGroup} for the available constraints.
+   *
+   * @default undefined
+   */
+  groups?: ArgGroup[]
+  /**
+   * Cross-field validation hook, called after resolution with the resolved values.
+   *
+   * The hook is called even when other validation errors occurred, then the values of the arguments that failed to resolve
+   * fall back to their defaults or are missing, and the errors of the hook are aggregated with the others.
+   * {@link ArgsValidationError | Validation errors} thrown from the hook (including ones in a thrown `AggregateError`)
+   * are merged into the returned `error`, and other errors are rethrown.
+   *
+   * @example
+   * ```ts
+   * resolveArgs(args, tokens, {
+   *   validate(values) {
+   *     if (values.min > values.max) {
+   *       throw new ArgsValidationError(`'--min' should be less than '--max'`)
+   *     }
+   *   }
+   * })
+   * ```
+   *
+   * @default undefined
+   */
+  validate?: (values: ArgValues<A>, explicit: ArgExplicitlyProvided<A>) => void
+  /**
+   * Whether to accept unique prefixes of long option names, like GNU `getopt_long`.
+   *
+   * For example, `--verb` is expanded into `--verbose`, and `--no-col` into `--no-color`.
+   * Kebab-case names, aliases, and `--no-` forms of negatable arguments are also expanded.
+   * When a prefix matches several options, an `ArgResolveError` with the `'unknown'` type is reported.
+   *
+   * @default false
+   */
+  allowAbbreviations?: boolean
+  /**
+   * Whether to parse inline values of boolean options, like `--cache=false` or `-c=no`.
+   *
+   * When `true`, `true`, `yes`, `on`, and `1` are truthy, and `false`, `no`, `off`, and `0` are falsy (case-insensitive).
+   * Pass an {@link ArgBooleanValues} object to configure the recognized values.
+   * Unrecognized values are reported as an `ArgResolveError` with the `'type'` type.
+   * For the `--no-` form of negatable options, the parsed value is negated.
+   *
+   * When `false`, inline values of boolean options are ignored, and `--cache=false` resolves to `true`.
+   *
+   * @default false
+   */
+  inlineBooleanValues?: boolean | ArgBooleanValues
+}
+
+/**
+ * A constraint over a group of arguments.
+ *
+ * An argument counts as provided when its value comes from command line arguments, environment variables,
+ * or configuration layers. Default values do not count. Positional arguments can be group members.
+ *
+ * - `'at-most-one'`: at most one of the arguments can be provided (mutually exclusive)
+ * - `'at-least-one'`: at least one of the arguments must be provided
+ * - `'exactly-one'`: exactly one of the arguments must be provided
+ *
+ * @example
+ * ```ts
+ * const groups: ArgGroup[] = [
+ *   { type: 'exactly-one', keys: ['json', 'yaml', 'toml'] }
+ * ]
+ * // Error: "Only one of '--json', '--yaml' or '--toml' can be provided, but got '--json' and '--yaml'"
+ * ```
+ */
+export interface ArgGroup {
+  /**
+   * Type of the constraint.
+   */
+  type: 'at-most-one' | 'at-least-one' | 'exactly-one'
+  /**
+   * Property keys of the arguments in the group (not the kebab-case option names).
+   */
+  keys: readonly string[]
+}
+
+/**
+ * Recognized inline values of boolean options, see {@link ResolveArgs.inlineBooleanValues}.
+ *
+ * Values are compared case-insensitively.
+ *
+ * @example
+ * ```ts
+ * const values: ArgBooleanValues = {
+ *   truthy: ['true', 'enable'],
+ *   falsy: ['false', 'disable']
+ * }
+ * // `--cache=disable` resolves to `false`
+ * ```
+ */
+export interface ArgBooleanValues {
+  /**
+   * Values that resolve to `true`.
+   */
+  truthy: readonly string[]
+  /**
+   * Values that resolve to `false`.
+   */
+  falsy: readonly string[]
+}
+
+/**
+ * A configuration layer, such as the contents of a JSON configuration file.
+ *
+ * Values are keyed by the property names of the {@link Args | arguments schema} (not the kebab-case option names),
+ * and are converted and validated in the same way as command line values:
+ * strings, numbers, and booleans are accepted for each value, and arrays are accepted for `multiple` options.
+ * Errors identify the layer name and the key instead of the option name.
+ *
+ * Keys of positional arguments are not consulted. In strict mode, unknown keys are reported as unknown options.
+ */
+export interface ArgConfigLayer {
+  /**
+   * Name of the layer used in error messages, e.g. a configuration file path.
+   */
+  name: string
+  /**
+   * Values of the layer, keyed by the property names of the arguments schema.
+   */
+  values: Record<string, unknown>
+}
+
+/**
+ * An arguments for {@link resolveArgsAsync | resolve arguments asynchronously}.
+ *
+ * @typeParam A - {@link Args | Arguments schema}, which is an object that defines the command line arguments.
+ */
+export interface AsyncResolveArgs<A extends Args = Args> extends Omit<ResolveArgs<A>, 'validate'> {
+  /**
+   * A signal to abort waiting for asynchronous parse functions.
+   * When aborted, the returned promise is rejected with the abort reason.
+   *
+   * @default undefined
+   */
+  signal?: AbortSignal
+  /**
+   * Cross-field validation hook, called after resolution with the awaited values.
+   *
+   * The hook can return a promise. See {@link ResolveArgs.validate} for how errors are handled.
+   *
+   * @default undefined
+   */
+  validate?: (values: AsyncArgValues<A>, explicit: ArgExplicitlyProvided<A>) => void | Promise<void>
 }
 
 const SKIP_POSITIONAL_DEFAULT = -1
@@ -698,23 +1204,91 @@ export type ArgExplicitlyProvided<A extends Args> = {
 }
 
 /**
- * Resolve command line arguments.
- *
- * @typeParam A - {@link Args | Arguments}, which is an object that defines the command line arguments.
- *
- * @param args - An arguments that contains {@link ArgSchema | arguments schema}.
- * @param tokens - An array of {@link ArgToken | tokens}.
- * @param resolveArgs - An arguments that contains {@link ResolveArgs | resolve arguments}.
- * @returns An object that contains the values of the arguments, positional arguments, rest arguments, {@link AggregateError | validation errors}, and explicit provision status.
- *
- * @example
- * ```typescript
- * // passed tokens: --port 3000
+ * A kind of source that provided an argument value.
  *
- * const { values, explicit } = resolveArgs({
- *   port: {
- *     type: 'number',
- *     default: 8080
+ * - `cli`: command line arguments
+ * - `default`: `default` of the argument schema
+ * - `env`: environment variables
+ * - `config`: configuration layers
+ * - `implied`: default factory of the argument schema, which derives the value from other argument values
+ */
+export type ArgValueSourceKind = 'cli' | 'default' | 'env' | 'config' | 'implied'
+
+/**
+ * A source that provided an argument value.
+ */
+export interface ArgValueSource {
+  /**
+   * Kind of the source.
+   */
+  kind: ArgValueSourceKind
+  /**
+   * Indices of the argument tokens that produced the value, e.g. `--tag a -t b` => `[0, 2]`.
+   *
+   * Only available for the `cli` kind.
+   */
+  indices?: number[]
+  /**
+   * The actual input name of the last option token that produced the value, e.g. `-v`, `--verbose`, or `--no-color`.
+   *
+   * Only available for options of the `cli` kind.
+   */
+  inputName?: string
+  /**
+   * Name of the environment variable that provided the value.
+   *
+   * Only available for the `env` kind.
+   */
+  env?: string
+  /**
+   * Name of the configuration layer that provided the value.
+   *
+   * Only available for the `config` kind.
+   */
+  layer?: string
+}
+
+/**
+ * Tracks where the value of each argument comes from.
+ *
+ * Arguments that have no value are not included.
+ *
+ * @typeParam A - {@link Args | Arguments}, which is an object that defines the command line arguments.
+ */
+export type ArgValueSources<A extends Args> = {
+  [K in keyof A]?: ArgValueSource
+}
+
+/**
+ * Tracks which arguments were provided from environment variables.
+ *
+ * Each property is the name of the environment variable that provided the value of the corresponding argument.
+ * This is derived from the `env` kind of {@link ArgValueSources}.
+ *
+ * @typeParam A - {@link Args | Arguments}, which is an object that defines the command line arguments.
+ */
+export type ArgEnvProvided<A extends Args> = {
+  [K in keyof A]?: string
+}
+
+/**
+ * Resolve command line arguments.
+ *
+ * @typeParam A - {@link Args | Arguments}, which is an object that defines the command line arguments.
+ *
+ * @param args - An arguments that contains {@link ArgSchema | arguments schema}.
+ * @param tokens - An array of {@link ArgToken | tokens}.
+ * @param resolveArgs - An arguments that contains {@link ResolveArgs | resolve arguments}.
+ * @returns An object that contains the values of the arguments, positional arguments, rest arguments, {@link AggregateError | validation errors}, {@link ArgsValidationError | warnings}, explicit provision status, environment variable provision status, and value sources.
+ *
+ * @example
+ * ```typescript
+ * // passed tokens: --port 3000
+ *
+ * const { values, explicit, sources } = resolveArgs({
+ *   port: {
+ *     type: 'number',
+ *     default: 8080
  *   },
  *   host: {
  *     type: 'string',
@@ -727,22 +1301,164 @@ export type ArgExplicitlyProvided<A extends Args> = {
  *
  * explicit.port // true (explicitly provided)
  * explicit.host // false (not provided, fallback to default)
+ *
+ * sources.port // { kind: 'cli', indices: [0], inputName: '--port' }
+ * sources.host // { kind: 'default' }
  * ```
  */
 export function resolveArgs<A extends Args>(
+  args: A,
+  tokens: ArgToken[],
+  resolveArgs: ResolveArgs<A> = {}
+): {
+  values: ArgValues<A>
+  positionals: string[]
+  rest: string[]
+  error: AggregateError | undefined
+  warnings: ArgsValidationError[]
+  explicit: ArgExplicitlyProvided<A>
+  fromEnv: ArgEnvProvided<A>
+  sources: ArgValueSources<A>
+} {
+  const {
+    errors,
+    deferredDefaults,
+    discarded: _,
+    ...resolved
+  } = resolveArgsCore(args, tokens, resolveArgs)
+  errors.push(...applyDefaultFactories(args, resolved.values, resolved.sources, deferredDefaults))
+
+  // run cross-field validation
+  if (resolveArgs.validate) {
+    try {
+      resolveArgs.validate(resolved.values, resolved.explicit)
+    } catch (error) {
+      errors.push(...toValidationErrors(error))
+    }
+  }
+
+  return {
+    ...resolved,
+    fromEnv: getEnvProvided(resolved.sources),
+    error: errors.length > 0 ? new AggregateError(errors) : undefined
+  }
+}
+
+/**
+ * Resolve command line arguments asynchronously.
+ *
+ * Works like {@link resolveArgs}, but `parse` functions of {@link ArgSchema | arguments schema} can return a promise.
+ * The promises are awaited concurrently, and rejections are reported as validation errors in the same way as errors thrown from `parse` functions.
+ *
+ * @typeParam A - {@link Args | Arguments}, which is an object that defines the command line arguments.
+ *
+ * @param args - An arguments that contains {@link ArgSchema | arguments schema}.
+ * @param tokens - An array of {@link ArgToken | tokens}.
+ * @param resolveArgs - An arguments that contains {@link AsyncResolveArgs | resolve arguments}.
+ * @returns A promise of an object that contains the awaited values of the arguments, and the same properties as {@link resolveArgs}.
+ *
+ * @example
+ * ```typescript
+ * // passed tokens: --config app.json
+ *
+ * const { values, error } = await resolveArgsAsync({
+ *   config: {
+ *     type: 'custom',
+ *     parse: async (value: string) => JSON.parse(await readFile(value, 'utf8'))
+ *   }
+ * }, parsedTokens, { signal: AbortSignal.timeout(1000) })
+ *
+ * values.config // the parsed content of 'app.json'
+ * ```
+ */
+export async function resolveArgsAsync<A extends Args>(
+  args: A,
+  tokens: ArgToken[],
+  resolveArgs: AsyncResolveArgs<A> = {}
+): Promise<{
+  values: AsyncArgValues<A>
+  positionals: string[]
+  rest: string[]
+  error: AggregateError | undefined
+  warnings: ArgsValidationError[]
+  explicit: ArgExplicitlyProvided<A>
+  fromEnv: ArgEnvProvided<A>
+  sources: ArgValueSources<A>
+}> {
+  const { signal, validate, ...options } = resolveArgs
+  signal?.throwIfAborted()
+
+  const { errors, deferredDefaults, discarded, ...resolved } = resolveArgsCore(
+    args,
+    tokens,
+    options
+  )
+  errors.push(
+    ...(await settleValues(
+      args,
+      resolved.values,
+      resolved.sources,
+      deferredDefaults,
+      discarded,
+      signal
+    ))
+  )
+  // default factories receive the awaited values
+  errors.push(...applyDefaultFactories(args, resolved.values, resolved.sources, deferredDefaults))
+  // promises in values are replaced with the awaited values in place
+  const values = resolved.values as unknown as AsyncArgValues<A>
+
+  // run cross-field validation
+  if (validate) {
+    try {
+      await validate(values, resolved.explicit)
+    } catch (error) {
+      errors.push(...toValidationErrors(error))
+    }
+  }
+
+  return {
+    ...resolved,
+    values,
+    fromEnv: getEnvProvided(resolved.sources),
+    error: errors.length > 0 ? new AggregateError(errors) : undefined
+  }
+}
+
+/**
+ * Resolve command line arguments, except for cross-field validation.
+ *
+ * @typeParam A - {@link Args | Arguments}, which is an object that defines the command line arguments.
+ *
+ * @param args - An arguments that contains {@link ArgSchema | arguments schema}.
+ * @param tokens - An array of {@link ArgToken | tokens}.
+ * @param resolveArgs - An arguments that contains {@link ResolveArgs | resolve arguments}.
+ * @returns An object that contains the resolved values and the validation errors.
+ */
+function resolveArgsCore<A extends Args>(
   args: A,
   tokens: ArgToken[],
   {
     shortGrouping = false,
     skipPositional = SKIP_POSITIONAL_DEFAULT,
-    toKebab = false
-  }: ResolveArgs = {}
+    toKebab = false,
+    strict = false,
+    env,
+    config = [],
+    groups = [],
+    allowAbbreviations = false,
+    inlineBooleanValues = false
+  }: Omit<ResolveArgs<A>, 'validate'>
 ): {
   values: ArgValues<A>
   positionals: string[]
   rest: string[]
-  error: AggregateError | undefined
+  errors: Error[]
+  warnings: ArgsValidationError[]
   explicit: ArgExplicitlyProvided<A>
+  sources: ArgValueSources<A>
+  deferredDefaults: string[]
+  discarded: unknown[]
 } {
   const skipPositionalIndex =
     typeof skipPositional === 'number'
@@ -768,12 +1484,83 @@ export function resolveArgs<A extends Args>(
       return false
     }
 
+    return getLongOptionNames(option, schema).some(
+      name =>
+        token.name === name ||
+        (isFlag(schema) && schema.negatable === true && token.name === `no-${name}`)
+    )
+  }
+
+  function checkTokenName(option: string, schema: ArgSchema, token: ArgToken): boolean {
     return (
-      token.name === option ||
-      (schema.type === 'boolean' && schema.negatable === true && token.name === `no-${option}`)
+      checkLongTokenName(option, schema, token) ||
+      (token.rawName != undefined &&
+        isShortOption(token.rawName) &&
+        getShortOptionNames(schema).includes(token.name!))
     )
   }
 
+  function getUnknownOptionSuggestions(token: ArgToken): string[] {
+    const long = hasLongOptionPrefix(token.rawName!)
+    const names: string[] = []
+    for (const [rawArg, schema] of argEntries) {
+      if (schema.type === 'positional') {
+        continue
+      }
+      if (long) {
+        for (const name of [getOptionName(rawArg, schema), ...getLongAliases(schema)]) {
+          names.push(name)
+          if (isFlag(schema) && schema.negatable === true) {
+            names.push(`no-${name}`)
+          }
+        }
+      } else {
+        names.push(...getShortOptionNames(schema))
+      }
+    }
+    return findSuggestions(token.name!, names).map(name => `${long ? '--' : '-'}${name}`)
+  }
+
+  const ambiguityErrors: ArgResolveError[] = []
+
+  /**
+   * Expand the unique prefix of a long option name into the full name.
+   * The token is not expanded when the name exactly matches or no name matches.
+   *
+   * @param token - A long option token
+   * @returns A copy of the token with the expanded name, or the token as is
+   */
+  function expandAbbreviation(token: ArgToken): ArgToken {
+    const name = token.name!
+    // full names keyed by the argument and negation, since aliases of an argument are not ambiguous
+    const candidates = new Map<string, string>()
+    for (const [rawArg, schema] of argEntries) {
+      if (schema.type === 'positional') {
+        continue
+      }
+      const negatable = isFlag(schema) && schema.negatable === true
+      for (const longName of getLongOptionNames(getOptionName(rawArg, schema), schema)) {
+        for (const candidate of negatable ? [longName, `no-${longName}`] : [longName]) {
+          if (candidate === name) {
+            return token
+          }
+          const key = `${rawArg}:${candidate === longName ? '' : 'no-'}`
+          if (candidate.startsWith(name) && !candidates.has(key)) {
+            candidates.set(key, candidate)
+          }
+        }
+      }
+    }
+
+    if (candidates.size === 1) {
+      return { ...token, name: candidates.values().next().value! }
+    }
+    if (candidates.size > 1) {
+      ambiguityErrors.push(createAmbiguousOptionError(token, [...candidates.values()]))
+    }
+    return token
+  }
+
   function toShortValue(): string | undefined {
     if (expandableShortOptions.length === 0) {
       return undefined
@@ -784,6 +1571,36 @@ export function resolveArgs<A extends Args>(
     }
   }
 
+  /**
+   * Values consumed by variadic option tokens, which have the `nargs` schema.
+   */
+  const variadicValues = new Map<ArgToken, { values: string[]; positionals: ArgToken[] }>()
+  let currentVariadic: { token: ArgToken; max: number } | undefined
+
+  function findVariadicSchema(token: ArgToken): ArgSchema | undefined {
+    return argEntries.find(
+      ([rawArg, schema]) =>
+        schema.type !== 'positional' &&
+        (schema.nargs != null || schema.items != null) &&
+        checkTokenName(getOptionName(rawArg, schema), schema, token)
+    )?.[1]
+  }
+
+  /**
+   * Start to consume positional tokens as values of a variadic option.
+   *
+   * @param option - A variadic option token, which is not resolved yet
+   * @param schema - An argument schema of the option
+   * @param token - The first positional token
+   */
+  function startVariadic(option: ArgToken, schema: ArgSchema, token: ArgToken): void {
+    const variadic = { ...option, value: token.value }
+    optionTokens.push(variadic)
+    variadicValues.set(variadic, { values: [token.value!], positionals: [token] })
+    const { max } = getArity(schema)
+    currentVariadic = max > 1 ? { token: variadic, max } : undefined
+  }
+
   function applyLongOptionValue(value?: string): void {
     if (currentLongOption) {
       currentLongOption.value = value
@@ -808,13 +1625,15 @@ export function resolveArgs<A extends Args>(
   const schemas = Object.values(args)
   const booleanLongOptionNames = new Set<string>()
   for (const [rawArg, schema] of Object.entries(args)) {
-    if (schema.type !== 'boolean') {
+    if (!isFlag(schema)) {
       continue
     }
     const arg = toKebab || schema.toKebab ? kebabnize(rawArg) : rawArg
-    booleanLongOptionNames.add(arg)
-    if (schema.negatable === true) {
-      booleanLongOptionNames.add(`no-${arg}`)
+    for (const name of getLongOptionNames(arg, schema)) {
+      booleanLongOptionNames.add(name)
+      if (schema.negatable === true) {
+        booleanLongOptionNames.add(`no-${name}`)
+      }
     }
   }
   let terminated = false
@@ -827,9 +1646,31 @@ export function resolveArgs<A extends Args>(
         rest.push(token.value)
         continue
       }
-      if (currentShortOption) {
+      if (currentVariadic) {
+        const variadic = variadicValues.get(currentVariadic.token)!
+        variadic.values.push(token.value!)
+        variadic.positionals.push(token)
+        if (variadic.values.length >= currentVariadic.max) {
+          currentVariadic = undefined
+        }
+        continue
+      }
+      const variadicOption = currentLongOption ?? currentShortOption
+      const variadicSchema = variadicOption && findVariadicSchema(variadicOption)
+      if (variadicSchema) {
+        if (currentShortOption && expandableShortOptions.length > 0) {
+          // the rest of the short option group is the first value
+          applyShortOptionValue()
+          positionalTokens.push({ ...token })
+        } else {
+          startVariadic(variadicOption, variadicSchema, token)
+          currentLongOption = undefined
+          currentShortOption = undefined
+        }
+      } else if (currentShortOption) {
         const isBoolean = schemas.find(
-          schema => schema.short === currentShortOption!.name && schema.type === 'boolean'
+          schema =>
+            getShortOptionNames(schema).includes(currentShortOption!.name!) && isFlag(schema)
         )
         if (isBoolean) {
           positionalTokens.push({ ...token })
@@ -848,14 +1689,16 @@ export function resolveArgs<A extends Args>(
         positionalTokens.push({ ...token })
       }
     } else if (token.kind === 'option') {
+      currentVariadic = undefined
       if (token.rawName) {
         if (hasLongOptionPrefix(token.rawName)) {
           // check if previous long option is not resolved
           applyLongOptionValue()
-          if (token.inlineValue) {
-            optionTokens.push({ ...token })
+          const longToken = allowAbbreviations ? expandAbbreviation(token) : token
+          if (longToken.inlineValue) {
+            optionTokens.push({ ...longToken })
           } else {
-            currentLongOption = { ...token }
+            currentLongOption = { ...longToken }
           }
           // check if previous short option is not resolved
           applyShortOptionValue()
@@ -886,6 +1729,7 @@ export function resolveArgs<A extends Args>(
         // short option value
         if (currentShortOption && currentShortOption.index == token.index && token.inlineValue) {
           currentShortOption.value = token.value
+          currentShortOption.inlineValue = true
           optionTokens.push({ ...currentShortOption })
           currentShortOption = undefined
         }
@@ -893,6 +1737,7 @@ export function resolveArgs<A extends Args>(
         applyLongOptionValue()
       }
     } else {
+      currentVariadic = undefined
       if (token.kind === 'option-terminator') {
         terminated = true
       }
@@ -909,14 +1754,33 @@ export function resolveArgs<A extends Args>(
   applyLongOptionValue()
   applyShortOptionValue()
 
+  // give back the values of variadic options, which are needed by required positional arguments
+  let missingPositionals =
+    argEntries.reduce((count, [, schema]) => count + getRequiredPositionalInputCount(schema), 0) -
+    positionalTokens.length
+  if (missingPositionals > 0) {
+    for (const [token, variadic] of [...variadicValues].reverse()) {
+      const { min } = getArity(findVariadicSchema(token)!)
+      while (missingPositionals > 0 && variadic.values.length > Math.max(min, 0)) {
+        variadic.values.pop()
+        positionalTokens.push({ ...variadic.positionals.pop()! })
+        missingPositionals--
+      }
+      token.value = variadic.values[0]
+    }
+    positionalTokens.sort((a, b) => a.index - b.index)
+  }
+
   /**
    * resolve values
    */
 
   const values = Object.create(null) as ArgValues<A>
-  const errors: Error[] = []
+  const errors: Error[] = [...ambiguityErrors]
   const explicit = Object.create(null) as ArgExplicitlyProvided<A>
+  const sources = Object.create(null) as Record<string, ArgValueSource>
   const actualInputNames = new Map<string, string>()
+  const warnings: ArgsValidationError[] = []
   let requiredPositionalsAfter: Record<string, number> | undefined
 
   const positionalItemCount = tokens.filter(token => token.kind === 'positional').length
@@ -929,6 +1793,9 @@ export function resolveArgs<A extends Args>(
     return requiredPositionalsAfter[rawArg] ?? 0
   }
 
+  const deferredDefaults: string[] = []
+  // values that are overwritten or dropped on errors, the promises in them are settled by `resolveArgsAsync` to report the rejections
+  const discarded: unknown[] = []
   let positionalsCount = 0
   for (const [rawArg, schema] of argEntries) {
     const arg = getOptionName(rawArg, schema)
@@ -956,11 +1823,11 @@ export function resolveArgs<A extends Args>(
               const parsed: unknown[] = []
               for (let i = positionalsCount; i < endPositionals; i++) {
                 const p = positionalTokens[i]
-                const [parsedValue, error] = parseSchemaValue(p.value!, rawArg, arg, schema)
+                const [parsedValue, error] = parsePositionalValue(p, rawArg, arg, schema)
                 if (error) {
                   errors.push(error)
                 } else {
-                  parsed.push(parsedValue)
+                  parsed.push(...toMultipleValues(parsedValue, schema))
                 }
               }
               // eslint-disable-next-line @typescript-eslint/no-unsafe-member-access -- NOTE(kazupon): Allow any type for resolving
@@ -973,6 +1840,12 @@ export function resolveArgs<A extends Args>(
               // eslint-disable-next-line @typescript-eslint/no-unsafe-member-access -- NOTE(kazupon): Allow any type for resolving
               ;(values as any)[rawArg] = valuesArray
             }
+            sources[rawArg] = {
+              kind: 'cli',
+              indices: positionalTokens
+                .slice(positionalsCount, endPositionals)
+                .map(token => token.index)
+            }
             positionalsCount = endPositionals
             // mark as explicitly set when positional arguments are provided.
             // eslint-disable-next-line @typescript-eslint/no-unsafe-member-access -- NOTE(sushichan044): Allow any type for resolving
@@ -988,7 +1861,9 @@ export function resolveArgs<A extends Args>(
 
         if (shouldRequireMissingSinglePositional(schema)) {
           if (positional != null) {
-            resolveSinglePositionalValue(values, errors, rawArg, arg, schema, positional)
+            if (resolveSinglePositionalValue(values, errors, rawArg, arg, schema, positional)) {
+              sources[rawArg] = { kind: 'cli', indices: [positional.index] }
+            }
             // mark as explicitly set when positional argument is provided.
             // eslint-disable-next-line @typescript-eslint/no-unsafe-member-access -- NOTE(sushichan044): Allow any type for resolving
             ;(explicit as any)[rawArg] = true
@@ -1004,7 +1879,9 @@ export function resolveArgs<A extends Args>(
           const availablePositionals = Math.max(positionalTokens.length - positionalsCount, 0)
 
           if (availablePositionals > requiredPositionals) {
-            resolveSinglePositionalValue(values, errors, rawArg, arg, schema, positional)
+            if (resolveSinglePositionalValue(values, errors, rawArg, arg, schema, positional)) {
+              sources[rawArg] = { kind: 'cli', indices: [positional.index] }
+            }
             // mark as explicitly set when positional argument is provided.
             // eslint-disable-next-line @typescript-eslint/no-unsafe-member-access -- NOTE(sushichan044): Allow any type for resolving
             ;(explicit as any)[rawArg] = true
@@ -1013,37 +1890,64 @@ export function resolveArgs<A extends Args>(
           }
         }
 
-        if (hasDefault(schema)) {
+        if (isDefaultFactory(schema.default)) {
+          deferredDefaults.push(rawArg)
+        } else if (hasDefault(schema)) {
           // eslint-disable-next-line @typescript-eslint/no-unsafe-member-access -- NOTE(kazupon): Allow any type for resolving
           ;(values as any)[rawArg] = schema.default
+          sources[rawArg] = { kind: 'default' }
         }
       }
       continue
     }
 
-    if (schema.required) {
-      const found = optionTokens.find(token => {
-        return (
-          (schema.short &&
-            token.name === schema.short &&
-            token.rawName != undefined &&
-            isShortOption(token.rawName)) ||
-          checkLongTokenName(arg, schema, token)
-        )
-      })
-      if (!found) {
-        errors.push(createRequireError(rawArg, arg, schema))
-        continue
+    if (!optionTokens.some(token => checkTokenName(arg, schema, token))) {
+      const envEntry = findEnvValue(schema, env)
+      if (envEntry) {
+        const [envName, envValue] = envEntry
+        const [parsedValue, error] = parseEnvValue(envName, envValue, rawArg, arg, schema)
+        if (error) {
+          errors.push(error)
+        } else {
+          // eslint-disable-next-line @typescript-eslint/no-unsafe-member-access -- NOTE(kazupon): Allow any type for resolving
+          ;(values as any)[rawArg] =
+            schema.multiple || schema.nargs != null
+              ? toMultipleValues(parsedValue, schema)
+              : parsedValue
+          sources[rawArg] = { kind: 'env', env: envName }
+        }
+      } else {
+        const configEntry = findConfigValue(rawArg, config)
+        if (configEntry) {
+          const [layer, configValue] = configEntry
+          const [parsedValue, configErrors] = parseConfigValue(
+            layer,
+            configValue,
+            rawArg,
+            arg,
+            schema
+          )
+          if (configErrors.length > 0) {
+            errors.push(...configErrors)
+            discarded.push(parsedValue)
+          } else {
+            // eslint-disable-next-line @typescript-eslint/no-unsafe-member-access -- NOTE(kazupon): Allow any type for resolving
+            ;(values as any)[rawArg] = parsedValue
+            sources[rawArg] = { kind: 'config', layer: layer.name }
+          }
+        } else if (schema.required) {
+          errors.push(createRequireError(rawArg, arg, schema))
+          continue
+        }
       }
     }
 
+    let count: number | undefined
+    const mapEntries: unknown[] = []
     for (let i = 0; i < optionTokens.length; i++) {
       const token = optionTokens[i]
 
-      if (
-        checkLongTokenName(arg, schema, token) ||
-        (schema.short === token.name && token.rawName != undefined && isShortOption(token.rawName))
-      ) {
+      if (checkTokenName(arg, schema, token)) {
         const invalid = validateRequire(token, rawArg, arg, schema)
         if (invalid) {
           errors.push(invalid)
@@ -1060,79 +1964,440 @@ export function resolveArgs<A extends Args>(
         const actualInputName = isShortOption(rawName) ? `-${token.name}` : rawName
         actualInputNames.set(rawArg, actualInputName)
 
-        const [parsedValue, error] = parse(token, rawArg, arg, schema)
+        if (schema.deprecatedNames && hasLongOptionPrefix(rawName)) {
+          const deprecatedName = schema.deprecatedNames.find(
+            name => token.name === name || token.name === `no-${name}`
+          )
+          if (deprecatedName && !warnings.some(w => w.values.deprecatedName === deprecatedName)) {
+            warnings.push(
+              createDeprecatedNameWarning(
+                rawArg,
+                arg,
+                schema,
+                deprecatedName,
+                token.name !== deprecatedName
+              )
+            )
+          }
+        }
+
+        if (schema.type === 'count') {
+          // count is existence-based, so the inline value (e.g. `--verbose=3` or `-v=3`) is invalid
+          const next = optionTokens[i + 1]
+          let inlineValue = token.inlineValue
+            ? token.value
+            : next?.name == undefined && next?.index === token.index
+              ? next.value
+              : undefined
+          // without short grouping, the rest of the group is the value of the short option (e.g. `-vvv` => `-v` with `vv`),
+          // so the repeated short option is counted as occurrences, and the others are invalid as the inline value
+          let occurrences = 1
+          if (inlineValue === undefined && token.value != undefined) {
+            if (token.value === token.name!.repeat(token.value.length)) {
+              occurrences += token.value.length
+            } else {
+              inlineValue = token.value
+            }
+          }
+          if (inlineValue !== undefined) {
+            errors.push(createTypeError(rawArg, arg, schema, inlineValue))
+            continue
+          }
+          // each occurrence increments the count, and the negated form resets it
+          count = schema.negatable && token.name!.startsWith('no-') ? 0 : (count ?? 0) + occurrences
+          const source = (sources[rawArg] ??= { kind: 'cli', indices: [] })
+          source.indices!.push(token.index)
+          source.inputName = actualInputName
+          continue
+        }
+
+        // inline values of tuples are split by the parse function
+        if (schema.nargs != null || (schema.items != null && !token.inlineValue)) {
+          const items =
+            variadicValues.get(token)?.values ?? (token.value == null ? [] : [token.value])
+          const [parsedValues, variadicErrors] = parseVariadic(items, token, rawArg, arg, schema)
+          if (variadicErrors.length > 0) {
+            errors.push(...variadicErrors)
+            discarded.push(parsedValues)
+            continue
+          }
+          if (schema.multiple) {
+            // eslint-disable-next-line @typescript-eslint/no-unsafe-member-access -- NOTE(kazupon): Allow any type for resolving
+            ;(values as any)[rawArg] ||= []
+            // eslint-disable-next-line @typescript-eslint/no-unsafe-member-access, @typescript-eslint/no-unsafe-call -- NOTE(kazupon): Allow any type for resolving
+            ;(values as any)[rawArg].push(...(schema.items ? [parsedValues] : parsedValues))
+          } else {
+            discarded.push(values[rawArg])
+            // eslint-disable-next-line @typescript-eslint/no-unsafe-member-access -- NOTE(kazupon): Allow any type for resolving
+            ;(values as any)[rawArg] = parsedValues
+          }
+          const source = (sources[rawArg] ??= { kind: 'cli', indices: [] })
+          source.indices!.push(token.index)
+          source.inputName = actualInputName
+          continue
+        }
+
+        const [parsedValue, error] =
+          inlineBooleanValues && schema.type === 'boolean' && token.inlineValue
+            ? parseInlineBoolean(token, rawArg, arg, schema, inlineBooleanValues)
+            : parse(token, rawArg, arg, schema)
         if (error) {
           errors.push(error)
         } else {
-          if (schema.multiple) {
+          if (schema.type === 'map') {
+            // entries are merged after all occurrences are parsed, see `mergeMapEntries`
+            mapEntries.push(parsedValue)
+          } else if (schema.multiple) {
             // eslint-disable-next-line @typescript-eslint/no-unsafe-member-access -- NOTE(kazupon): Allow any type for resolving
             ;(values as any)[rawArg] ||= []
             // eslint-disable-next-line @typescript-eslint/no-unsafe-member-access, @typescript-eslint/no-unsafe-call -- NOTE(kazupon): Allow any type for resolving
-            ;(values as any)[rawArg].push(parsedValue)
+            ;(values as any)[rawArg].push(...toMultipleValues(parsedValue, schema))
           } else {
+            discarded.push(values[rawArg])
             // eslint-disable-next-line @typescript-eslint/no-unsafe-member-access -- NOTE(kazupon): Allow any type for resolving
             ;(values as any)[rawArg] = parsedValue
           }
+          const source = (sources[rawArg] ??= { kind: 'cli', indices: [] })
+          source.indices!.push(token.index)
+          source.inputName = actualInputName
         }
       }
     }
 
-    if (values[rawArg] == null && schema.default != null) {
+    if (mapEntries.length > 0) {
+      const [map, duplicateErrors] = mergeMapEntries(mapEntries, rawArg, arg, schema)
+      errors.push(...duplicateErrors)
+      // eslint-disable-next-line @typescript-eslint/no-unsafe-member-access -- NOTE(kazupon): Allow any type for resolving
+      ;(values as any)[rawArg] = map
+    }
+
+    if (count !== undefined) {
+      const [parsedValue, error] = parseCount(count, rawArg, arg, schema)
+      if (error) {
+        errors.push(error)
+      } else {
+        // eslint-disable-next-line @typescript-eslint/no-unsafe-member-access -- NOTE(kazupon): Allow any type for resolving
+        ;(values as any)[rawArg] = parsedValue
+      }
+    }
+
+    if (values[rawArg] == null && isDefaultFactory(schema.default)) {
+      deferredDefaults.push(rawArg)
+    } else if (values[rawArg] == null && schema.default != null) {
       // check if the default value is in values
       // eslint-disable-next-line @typescript-eslint/no-unsafe-member-access -- NOTE(kazupon): Allow any type for resolving
       ;(values as any)[rawArg] = schema.default
+      sources[rawArg] = { kind: 'default' }
+    }
+  }
+
+  // check for unknown options
+  if (strict) {
+    for (const token of optionTokens) {
+      // ambiguous options are already reported
+      if (ambiguityErrors.some(error => error.values.index === token.index)) {
+        continue
+      }
+      const known = argEntries.some(
+        ([rawArg, schema]) =>
+          schema.type !== 'positional' &&
+          checkTokenName(getOptionName(rawArg, schema), schema, token)
+      )
+      if (!known) {
+        errors.push(createUnknownOptionError(token, getUnknownOptionSuggestions(token)))
+      }
+    }
+    for (const layer of config) {
+      for (const key of Object.keys(layer.values)) {
+        if (args[key] == undefined || args[key].type === 'positional') {
+          errors.push(createUnknownConfigKeyError(layer, key))
+        }
+      }
     }
   }
 
   // check for conflicts
-  const conflictErrors = checkConflicts(args, explicit, toKebab, actualInputNames)
+  const conflictErrors = checkConflicts(args, sources, toKebab, actualInputNames)
   errors.push(...conflictErrors)
 
+  // check for dependencies
+  const dependencyErrors = checkDependencies(args, sources, toKebab, actualInputNames)
+  errors.push(...dependencyErrors)
+
+  // check for groups
+  const groupErrors = checkGroups(args, groups, sources, toKebab)
+  errors.push(...groupErrors)
+
+  // check for deprecated arguments
+  const deprecationWarnings = checkDeprecations(args, sources, toKebab, actualInputNames)
+  warnings.push(...deprecationWarnings)
+
   return {
     values,
     positionals: positionalTokens.map(token => token.value!),
     rest,
-    error: errors.length > 0 ? new AggregateError(errors) : undefined,
-    explicit
+    errors,
+    warnings,
+    explicit,
+    sources,
+    deferredDefaults,
+    discarded
   }
 }
 
-function parse(
-  token: ArgToken,
-  rawArg: string,
-  option: string,
-  schema: ArgSchema
-): [unknown, Error | undefined] {
-  // When schema.parse is defined, use it directly (all types including boolean).
-  if (typeof schema.parse === 'function') {
-    if (schema.type === 'boolean') {
-      // boolean is existence-based: pass negation result as string to parse
-      const boolValue = !(schema.negatable && token.name!.startsWith('no-'))
-      return parseSchemaValue(String(boolValue), rawArg, option, schema)
+/**
+ * Evaluate the default factories.
+ * The factories can depend on the resolved values, so they are evaluated after the other values are resolved (and settled).
+ *
+ * @param args - An arguments that contains {@link ArgSchema | arguments schema}.
+ * @param values - The resolved values, which are updated in place
+ * @param sources - The value sources, which are updated in place
+ * @param deferredDefaults - The property keys of the arguments that fall back to the default factories
+ * @returns The validation errors thrown from the factories
+ */
+function applyDefaultFactories<A extends Args>(
+  args: A,
+  values: ArgValues<A>,
+  sources: ArgValueSources<A>,
+  deferredDefaults: string[]
+): Error[] {
+  const errors: Error[] = []
+  for (const rawArg of deferredDefaults) {
+    try {
+      const defaultValue = (args[rawArg].default as ArgDefaultFactory)(values)
+      if (defaultValue != null) {
+        // eslint-disable-next-line @typescript-eslint/no-unsafe-member-access -- NOTE(kazupon): Allow any type for resolving
+        ;(values as any)[rawArg] = defaultValue
+        ;(sources as Record<string, ArgValueSource>)[rawArg] = { kind: 'implied' }
+      }
+    } catch (error) {
+      errors.push(...toValidationErrors(error))
     }
-    return parseSchemaValue(token.value ?? String(schema.default ?? ''), rawArg, option, schema)
   }
-  switch (schema.type) {
-    case 'string': {
-      // prettier-ignore
-      return typeof token.value === 'string'
-        ? [token.value || schema.default, undefined]
-        : [undefined, createTypeError(rawArg, option, schema, token.value)];
-    }
-    case 'boolean': {
-      return [!(schema.negatable && token.name!.startsWith('no-')), undefined]
+  return errors
+}
+
+/**
+ * Get the environment variable provision status from the value sources.
+ *
+ * @param sources - The value sources
+ * @returns The names of the environment variables that provided the values
+ */
+function getEnvProvided<A extends Args>(sources: ArgValueSources<A>): ArgEnvProvided<A> {
+  const fromEnv = Object.create(null) as Record<string, string>
+  for (const [rawArg, source] of Object.entries(sources as Record<string, ArgValueSource>)) {
+    if (source.kind === 'env') {
+      fromEnv[rawArg] = source.env!
     }
-    case 'number': {
+  }
+  return fromEnv
+}
+
+/**
+ * Await the promises in the values returned by asynchronous parse functions, and replace them with the awaited values.
+ * Arguments whose promises are rejected fall back to their default values.
+ *
+ * @param args - An {@link Args | arguments schema}
+ * @param values - The resolved values, which are updated in place
+ * @param sources - The value sources, which are updated in place
+ * @param deferredDefaults - The property keys of the arguments that fall back to the default factories, which is updated in place
+ * @param discarded - The values that are overwritten or dropped on errors, whose rejections are reported as well
+ * @param signal - A signal to abort waiting
+ * @returns The validation errors of the rejected promises
+ */
+async function settleValues<A extends Args>(
+  args: A,
+  values: ArgValues<A>,
+  sources: ArgValueSources<A>,
+  deferredDefaults: string[],
+  discarded: unknown[],
+  signal?: AbortSignal
+): Promise<Error[]> {
+  const resolvedValues = values as Record<string, unknown>
+  const valueSources = sources as Record<string, ArgValueSource>
+  // the rejections are reported in the same way as the errors of the synchronous parse functions
+  const pending: Promise<Error[]>[] = discarded
+    .filter(value => hasPromise(value))
+    .map(value =>
+      settle(value).then(
+        () => [],
+        (error: unknown) => toRejectionErrors(error)
+      )
+    )
+
+  for (const rawArg of Object.keys(resolvedValues)) {
+    const value = resolvedValues[rawArg]
+    // each value of `multiple` is settled individually, others (e.g. tuples) are settled as a whole
+    const multiple = !!args[rawArg].multiple && Array.isArray(value)
+    const items = multiple ? (value as unknown[]) : [value]
+    if (!items.some(item => hasPromise(item))) {
+      continue
+    }
+
+    pending.push(
+      Promise.allSettled(items.map(item => settle(item))).then(results => {
+        const fulfilled: unknown[] = []
+        const errors: Error[] = []
+        for (const result of results) {
+          if (result.status === 'fulfilled') {
+            fulfilled.push(result.value)
+          } else {
+            errors.push(...toRejectionErrors(result.reason))
+          }
+        }
+
+        if (multiple && fulfilled.length > 0) {
+          resolvedValues[rawArg] = fulfilled
+        } else if (errors.length === 0) {
+          resolvedValues[rawArg] = fulfilled[0]
+        } else if (args[rawArg].default == null || isDefaultFactory(args[rawArg].default)) {
+          delete resolvedValues[rawArg]
+          delete valueSources[rawArg]
+          if (isDefaultFactory(args[rawArg].default)) {
+            deferredDefaults.push(rawArg)
+          }
+        } else {
+          resolvedValues[rawArg] = args[rawArg].default
+          valueSources[rawArg] = { kind: 'default' }
+        }
+        return errors
+      })
+    )
+  }
+
+  const errors = await abortable(Promise.all(pending), signal)
+  return errors.flat()
+}
+
+function abortable<T>(promise: Promise<T>, signal?: AbortSignal): Promise<T> {
+  if (signal == undefined) {
+    return promise
+  }
+  return new Promise<T>((resolve, reject) => {
+    // eslint-disable-next-line @typescript-eslint/prefer-promise-reject-errors -- NOTE(kazupon): reject with the abort reason as is, like other abortable APIs
+    const onAbort = () => reject(signal.reason)
+    signal.addEventListener('abort', onAbort, { once: true })
+    promise.then(resolve, reject).finally(() => signal.removeEventListener('abort', onAbort))
+  })
+}
+
+/**
+ * Settle the value, including the promises nested in arrays (e.g. tuples and map entries).
+ *
+ * @param value - The value, which may be or contain promises
+ * @returns A promise of the settled value, which is rejected with the errors of the rejected promises
+ */
+async function settle(value: unknown): Promise<unknown> {
+  if (!Array.isArray(value)) {
+    return value
+  }
+  const results = await Promise.allSettled(value.map(item => settle(item)))
+  const errors = results.flatMap(result =>
+    result.status === 'rejected' ? toRejectionErrors(result.reason) : []
+  )
+  if (errors.length > 0) {
+    throw errors.length === 1 ? errors[0] : new AggregateError(errors)
+  }
+  return results.map(result => (result as PromiseFulfilledResult<unknown>).value)
+}
+
+function toRejectionErrors(reason: unknown): Error[] {
+  return reason instanceof AggregateError ? (reason.errors as Error[]) : [reason as Error]
+}
+
+function hasPromise(value: unknown): boolean {
+  return isPromiseLike(value) || (Array.isArray(value) && value.some(item => hasPromise(item)))
+}
+
+function isPromiseLike(value: unknown): value is PromiseLike<unknown> {
+  return (
+    value != null &&
+    (typeof value === 'object' || typeof value === 'function') &&
+    typeof (value as PromiseLike<unknown>).then === 'function'
+  )
+}
+
+/**
+ * Convert an error thrown from the cross-field validation hook into validation errors.
+ *
+ * @param error - An error thrown from the hook
+ * @returns The validation errors
+ */
+function toValidationErrors(error: unknown): Error[] {
+  if (isArgsValidationError(error)) {
+    return [error]
+  }
+  if (
+    error instanceof AggregateError &&
+    (error.errors as unknown[]).every(e => isArgsValidationError(e))
+  ) {
+    return error.errors as Error[]
+  }
+  throw error
+}
+
+/**
+ * Where a value comes from, when it is not from command line arguments.
+ */
+type ValueOrigin = { source: 'env'; name: string } | { source: 'config'; name: string; key: string }
+
+function parse(
+  token: ArgToken,
+  rawArg: string,
+  option: string,
+  schema: ArgSchema,
+  origin?: ValueOrigin
+): [unknown, Error | undefined] {
+  // When schema.parse is defined, use it directly (all types including boolean).
+  if (typeof schema.parse === 'function') {
+    if (schema.type === 'boolean') {
+      // boolean is existence-based: pass negation result as string to parse
+      const boolValue = !(schema.negatable && token.name!.startsWith('no-'))
+      return parseSchemaValue(String(boolValue), rawArg, option, schema, origin)
+    }
+    return parseSchemaValue(
+      token.value ?? String(getPrimitiveDefault(schema) ?? ''),
+      rawArg,
+      option,
+      schema,
+      origin
+    )
+  }
+  switch (schema.type) {
+    case 'string': {
+      // prettier-ignore
+      return typeof token.value === 'string'
+        ? [token.value || getPrimitiveDefault(schema), undefined]
+        : [undefined, createTypeError(rawArg, option, schema, token.value, origin)];
+    }
+    case 'boolean': {
+      return [!(schema.negatable && token.name!.startsWith('no-')), undefined]
+    }
+    case 'number': {
       if (!isNumeric(token.value!)) {
-        return [undefined, createTypeError(rawArg, option, schema, token.value)]
+        return [undefined, createTypeError(rawArg, option, schema, token.value, origin)]
       }
-      return token.value ? [+token.value, undefined] : [+(schema.default || ''), undefined]
+      return token.value
+        ? [+token.value, undefined]
+        : [+(getPrimitiveDefault(schema) || ''), undefined]
     }
     case 'enum': {
       if (schema.choices && !schema.choices.includes(token.value!)) {
-        return [undefined, createChoiceError(rawArg, option, schema, token.value)]
+        return [undefined, createChoiceError(rawArg, option, schema, token.value, origin)]
       }
-      return [token.value || schema.default, undefined]
+      return [token.value || getPrimitiveDefault(schema), undefined]
+    }
+    case 'map': {
+      const separator = schema.separator ?? '='
+      const index = token.value == null ? -1 : token.value.indexOf(separator)
+      // the key must not be empty
+      if (index <= 0) {
+        return [undefined, createTypeError(rawArg, option, schema, token.value, origin)]
+      }
+      return [
+        [token.value!.slice(0, index), token.value!.slice(index + separator.length)],
+        undefined
+      ]
     }
     case 'custom': {
       // When schema.parse is defined, it's handled by the priority check above.
@@ -1145,18 +2410,384 @@ function parse(
   }
 }
 
+function parseCount(
+  count: number,
+  rawArg: string,
+  option: string,
+  schema: ArgSchema,
+  origin?: ValueOrigin
+): [unknown, Error | undefined] {
+  // like boolean, count is existence-based: pass the number of occurrences as string to parse
+  return typeof schema.parse === 'function'
+    ? parseSchemaValue(String(count), rawArg, option, schema, origin)
+    : [count, undefined]
+}
+
+/**
+ * Get the minimum and maximum number of values consumed by one occurrence of a variadic option.
+ *
+ * @param schema - An argument schema with `nargs` or `items`
+ * @returns The minimum and maximum number of values
+ */
+function getArity(schema: ArgSchema): { min: number; max: number } {
+  if (schema.items) {
+    return { min: schema.items.length, max: schema.items.length }
+  }
+  const nargs = schema.nargs
+  if (typeof nargs === 'number') {
+    return { min: nargs, max: nargs }
+  }
+  if (nargs === '+') {
+    return { min: 1, max: Infinity }
+  }
+  if (nargs === '*' || nargs == null) {
+    return { min: 0, max: Infinity }
+  }
+  return { min: nargs.min ?? 0, max: nargs.max ?? Infinity }
+}
+
+function parseVariadic(
+  items: string[],
+  token: ArgToken,
+  rawArg: string,
+  option: string,
+  schema: ArgSchema
+): [unknown[], Error[]] {
+  const { min, max } = getArity(schema)
+  if (items.length < min) {
+    return [[], [createRequiredValuesError(rawArg, option, schema, min, max, items.length)]]
+  }
+  const parsedValues: unknown[] = []
+  const errors: Error[] = []
+  for (const [index, item] of items.entries()) {
+    if (schema.items) {
+      // each element of tuples is parsed by its own schema
+      const itemSchema = { ...schema, ...schema.items[index], parse: schema.items[index].parse }
+      const [parsedValue, error] = parse({ ...token, value: item }, rawArg, option, itemSchema)
+      if (error) {
+        errors.push(error)
+      } else {
+        parsedValues.push(parsedValue)
+      }
+      continue
+    }
+    const [parsedValue, error] = parse({ ...token, value: item }, rawArg, option, schema)
+    if (error) {
+      errors.push(error)
+    } else {
+      parsedValues.push(...toMultipleValues(parsedValue, schema))
+    }
+  }
+  return [parsedValues, errors]
+}
+
+/**
+ * Convert a parsed value into the values of a `multiple` argument.
+ * List values, which are split with the `separator`, are flattened into the values.
+ *
+ * @param value - A parsed value
+ * @param schema - An argument schema
+ * @returns The values to append
+ */
+function toMultipleValues(value: unknown, schema: ArgSchema): unknown[] {
+  return schema.separator != null && Array.isArray(value) ? (value as unknown[]) : [value]
+}
+
+/**
+ * Merge `[key, value]` entries into a map in order.
+ *
+ * Entries that contain promises of asynchronous `parse` functions are merged after they are settled,
+ * and then a promise of the map is returned, which is awaited by `resolveArgsAsync`.
+ *
+ * @param entries - The parsed entries
+ * @param rawArg - The property key of the argument
+ * @param option - The option name of the argument
+ * @param schema - The argument schema
+ * @param origin - Where the entries come from
+ * @returns The map (or a promise of it), and the errors of the duplicated keys
+ */
+function mergeMapEntries(
+  entries: unknown[],
+  rawArg: string,
+  option: string,
+  schema: ArgSchema,
+  origin?: ValueOrigin
+): [unknown, Error[]] {
+  const merge = (entries: unknown[]): [Record<string, unknown>, Error[]] => {
+    const map = Object.create(null) as Record<string, unknown>
+    const errors: Error[] = []
+    for (const entry of entries) {
+      const duplicated = mergeMapEntry(map, entry, rawArg, option, schema, origin)
+      if (duplicated) {
+        errors.push(duplicated)
+      }
+    }
+    return [map, errors]
+  }
+
+  if (!entries.some(entry => hasPromise(entry))) {
+    return merge(entries)
+  }
+
+  return [
+    settle(entries).then(settled => {
+      const [map, errors] = merge(settled as unknown[])
+      if (errors.length > 0) {
+        throw errors.length === 1 ? errors[0] : new AggregateError(errors)
+      }
+      return map
+    }),
+    []
+  ]
+}
+
+/**
+ * Merge a `[key, value]` entry into the record of a `map` argument, following the duplicate key policy.
+ *
+ * @param map - A record of the argument
+ * @param entry - A parsed entry
+ * @param rawArg - A raw argument name
+ * @param option - An option name
+ * @param schema - An argument schema
+ * @param origin - Where the entry comes from, if not from command line arguments
+ * @returns An error if the key is duplicated and the policy is `'error'`
+ */
+function mergeMapEntry(
+  map: Record<string, unknown>,
+  entry: unknown,
+  rawArg: string,
+  option: string,
+  schema: ArgSchema,
+  origin?: ValueOrigin
+): ArgResolveError | undefined {
+  const [key, value] = entry as [string, unknown]
+  if (Object.hasOwn(map, key)) {
+    const policy = schema.duplicateKeys ?? 'last'
+    if (policy === 'error') {
+      return createDuplicateKeyError(rawArg, option, schema, key, origin)
+    }
+    if (policy === 'first') {
+      return undefined
+    }
+  }
+  map[key] = value
+  return undefined
+}
+
 function parseSchemaValue(
   value: string,
   rawArg: string,
   option: string,
-  schema: ArgSchema
+  schema: ArgSchema,
+  origin?: ValueOrigin
 ): [unknown, Error | undefined] {
   try {
     const parsedValue: unknown = schema.parse!(value)
+    if (isPromiseLike(parsedValue)) {
+      // rejections of asynchronous parse functions are awaited by `resolveArgsAsync` as validation errors
+      return [
+        Promise.resolve(parsedValue).catch((error: unknown) => {
+          throw createCustomParseError(error, rawArg, option, schema, value, origin)
+        }),
+        undefined
+      ]
+    }
     return [parsedValue, undefined]
   } catch (error) {
-    return [undefined, createCustomParseError(error, rawArg, option, schema, value)]
+    return [undefined, createCustomParseError(error, rawArg, option, schema, value, origin)]
+  }
+}
+
+function findEnvValue(
+  schema: ArgSchema,
+  env: Record<string, string | undefined> | undefined
+): [name: string, value: string] | undefined {
+  if (env == undefined || schema.env == undefined) {
+    return undefined
+  }
+  const names = Array.isArray(schema.env) ? schema.env : [schema.env]
+  for (const name of names) {
+    const value = env[name]
+    if (value) {
+      return [name, value]
+    }
+  }
+  return undefined
+}
+
+function findConfigValue(
+  rawArg: string,
+  config: ArgConfigLayer[]
+): [layer: ArgConfigLayer, value: unknown] | undefined {
+  for (const layer of config) {
+    if (Object.hasOwn(layer.values, rawArg) && layer.values[rawArg] != null) {
+      return [layer, layer.values[rawArg]]
+    }
+  }
+  return undefined
+}
+
+function parseConfigValue(
+  layer: ArgConfigLayer,
+  value: unknown,
+  rawArg: string,
+  option: string,
+  schema: ArgSchema
+): [unknown, Error[]] {
+  const origin: ValueOrigin = { source: 'config', name: layer.name, key: rawArg }
+  if (schema.type === 'map') {
+    return parseConfigMap(value, rawArg, option, schema, origin)
+  }
+  if (schema.multiple || schema.nargs != null) {
+    const items = Array.isArray(value) ? (value as unknown[]) : [value]
+    const parsed: unknown[] = []
+    const errors: Error[] = []
+    for (const item of items) {
+      const [parsedValue, error] = parseConfigItem(item, rawArg, option, schema, origin)
+      if (error) {
+        errors.push(error)
+      } else {
+        parsed.push(...toMultipleValues(parsedValue, schema))
+      }
+    }
+    return [parsed, errors]
+  }
+  const [parsedValue, error] = parseConfigItem(value, rawArg, option, schema, origin)
+  return [parsedValue, error ? [error] : []]
+}
+
+function parseConfigMap(
+  value: unknown,
+  rawArg: string,
+  option: string,
+  schema: ArgSchema,
+  origin: ValueOrigin
+): [unknown, Error[]] {
+  // plain objects are converted into `key=value` inputs, so that they are parsed in the same way as command line
+  const separator = schema.separator ?? '='
+  const items: unknown[] = Array.isArray(value)
+    ? (value as unknown[])
+    : typeof value === 'object' && value !== null
+      ? Object.entries(value as Record<string, unknown>).map(([key, item]) =>
+          typeof item === 'string' || typeof item === 'number' || typeof item === 'boolean'
+            ? `${key}${separator}${String(item)}`
+            : item
+        )
+      : [value]
+  const entries: unknown[] = []
+  const errors: Error[] = []
+  for (const item of items) {
+    const [entry, error] = parseConfigItem(item, rawArg, option, schema, origin)
+    if (error) {
+      errors.push(error)
+    } else {
+      entries.push(entry)
+    }
+  }
+  const [map, duplicateErrors] = mergeMapEntries(entries, rawArg, option, schema, origin)
+  return [map, [...errors, ...duplicateErrors]]
+}
+
+function parseConfigItem(
+  value: unknown,
+  rawArg: string,
+  option: string,
+  schema: ArgSchema,
+  origin: ValueOrigin
+): [unknown, Error | undefined] {
+  // configuration values are converted through the same path as string values from command line
+  if (typeof value === 'string' || typeof value === 'number' || typeof value === 'boolean') {
+    return parseExternalValue(String(value), rawArg, option, schema, origin)
   }
+  return [undefined, createTypeError(rawArg, option, schema, value, origin)]
+}
+
+function parseEnvValue(
+  name: string,
+  value: string,
+  rawArg: string,
+  option: string,
+  schema: ArgSchema
+): [unknown, Error | undefined] {
+  const [parsedValue, error] = parseExternalValue(value, rawArg, option, schema, {
+    source: 'env',
+    name
+  })
+  if (schema.type === 'map' && !error) {
+    // an environment variable provides a single entry
+    const [map] = mergeMapEntries([parsedValue], rawArg, option, schema)
+    return [map, undefined]
+  }
+  return [parsedValue, error]
+}
+
+function parseExternalValue(
+  value: string,
+  rawArg: string,
+  option: string,
+  schema: ArgSchema,
+  origin: ValueOrigin
+): [unknown, Error | undefined] {
+  if (schema.type === 'boolean') {
+    const boolValue = toBoolean(value)
+    if (boolValue === undefined) {
+      return [undefined, createTypeError(rawArg, option, schema, value, origin)]
+    }
+    return typeof schema.parse === 'function'
+      ? parseSchemaValue(String(boolValue), rawArg, option, schema, origin)
+      : [boolValue, undefined]
+  }
+  if (schema.type === 'count') {
+    if (!/^\d+$/.test(value)) {
+      return [undefined, createTypeError(rawArg, option, schema, value, origin)]
+    }
+    return parseCount(Number(value), rawArg, option, schema, origin)
+  }
+  const token: ArgToken = {
+    kind: 'option',
+    index: -1,
+    name: option,
+    rawName: `--${option}`,
+    value,
+    inlineValue: true
+  }
+  return parse(token, rawArg, option, schema, origin)
+}
+
+const TRUTHY_VALUES = new Set(['true', 'yes', 'on', '1'])
+const FALSY_VALUES = new Set(['false', 'no', 'off', '0'])
+
+function toBoolean(value: string, booleanValues?: ArgBooleanValues): boolean | undefined {
+  const normalized = value.toLowerCase()
+  const isValue = (values: readonly string[]) =>
+    values.some(item => item.toLowerCase() === normalized)
+  if (booleanValues ? isValue(booleanValues.truthy) : TRUTHY_VALUES.has(normalized)) {
+    return true
+  }
+  if (booleanValues ? isValue(booleanValues.falsy) : FALSY_VALUES.has(normalized)) {
+    return false
+  }
+  return undefined
+}
+
+function parseInlineBoolean(
+  token: ArgToken,
+  rawArg: string,
+  option: string,
+  schema: ArgSchema,
+  inlineBooleanValues: true | ArgBooleanValues
+): [unknown, Error | undefined] {
+  const boolValue = toBoolean(
+    token.value!,
+    inlineBooleanValues === true ? undefined : inlineBooleanValues
+  )
+  if (boolValue === undefined) {
+    return [undefined, createTypeError(rawArg, option, schema, token.value)]
+  }
+  const value = schema.negatable && token.name!.startsWith('no-') ? !boolValue : boolValue
+  return typeof schema.parse === 'function'
+    ? parseSchemaValue(String(value), rawArg, option, schema)
+    : [value, undefined]
 }
 
 function createRequireError(rawArg: string, option: string, schema: ArgSchema): ArgResolveError {
@@ -1183,23 +2814,77 @@ function resolveSinglePositionalValue(
   option: string,
   schema: ArgSchema,
   positional: ArgToken
-): void {
+): boolean {
   if (typeof schema.parse === 'function') {
-    const [parsedValue, error] = parseSchemaValue(positional.value!, rawArg, option, schema)
+    const [parsedValue, error] = parsePositionalValue(positional, rawArg, option, schema)
     if (error) {
       errors.push(error)
-    } else {
-      values[rawArg] = parsedValue
+      return false
     }
+    values[rawArg] = parsedValue
   } else {
     values[rawArg] = positional.value!
   }
+  return true
+}
+
+/**
+ * Parse the value of the positional argument token.
+ * The index of the token is recorded in the values of the errors, because positional arguments have no name in the command line.
+ *
+ * @param token - A positional argument token
+ * @param rawArg - The property key of the argument
+ * @param option - The name of the argument
+ * @param schema - The argument schema
+ * @returns The parsed value and the error
+ */
+function parsePositionalValue(
+  token: ArgToken,
+  rawArg: string,
+  option: string,
+  schema: ArgSchema
+): [unknown, Error | undefined] {
+  const recordIndex = (error: unknown) => {
+    if (isArgsValidationError(error)) {
+      error.values.tokenIndex = token.index
+    }
+  }
+
+  const [parsedValue, error] = parseSchemaValue(token.value!, rawArg, option, schema)
+  recordIndex(error)
+  if (isPromiseLike(parsedValue)) {
+    return [
+      Promise.resolve(parsedValue).catch((error: unknown) => {
+        recordIndex(error)
+        throw error
+      }),
+      undefined
+    ]
+  }
+  return [parsedValue, error]
 }
 
 function hasDefault(schema: ArgSchema): boolean {
   return schema.default != null
 }
 
+function isDefaultFactory(value: unknown): value is ArgDefaultFactory {
+  return typeof value === 'function'
+}
+
+/**
+ * Get the default value, which can be used as a fallback of empty input values.
+ *
+ * @param schema - An argument schema
+ * @returns The default value if it is a primitive, otherwise `undefined`
+ */
+function getPrimitiveDefault(schema: ArgSchema): string | boolean | number | undefined {
+  const value = schema.default
+  return typeof value === 'string' || typeof value === 'boolean' || typeof value === 'number'
+    ? value
+    : undefined
+}
+
 function shouldRequireMissingSinglePositional(schema: ArgSchema): boolean {
   if (schema.required === true) {
     return true
@@ -1239,7 +2924,7 @@ function createRequiredPositionalsAfter(argEntries: [string, ArgSchema][]): Reco
 /**
  * An error type for {@link ArgResolveError}.
  */
-export type ArgResolveErrorType = 'type' | 'required' | 'conflict'
+export type ArgResolveErrorType = 'type' | 'required' | 'conflict' | 'unknown' | 'dependency'
 
 /**
  * An error that occurs when resolving arguments.
@@ -1254,7 +2939,7 @@ export class ArgResolveError extends ArgsValidationError {
    *
    * @param message - the error message
    * @param name - the name of the argument
-   * @param type - the type of the error: 'type', 'required', or 'conflict'
+   * @param type - the type of the error: 'type', 'required', 'conflict', 'unknown', or 'dependency'
    * @param schema - the argument schema that caused the error
    * @param options - structured validation metadata
    */
@@ -1276,13 +2961,49 @@ export class ArgResolveError extends ArgsValidationError {
   }
 }
 
+/**
+ * Check whether the argument schema is a flag, which does not take a value.
+ *
+ * @param schema - An {@link ArgSchema | argument schema}
+ * @returns `true` if the schema is a `boolean` or `count` flag
+ */
+function isFlag(schema: ArgSchema): boolean {
+  return schema.type === 'boolean' || schema.type === 'count'
+}
+
+/**
+ * Get the long option names of the argument schema.
+ *
+ * @param option - The option name, which is the property key or its kebab-case
+ * @param schema - An {@link ArgSchema | argument schema}
+ * @returns The option name, its long aliases, and its deprecated names
+ */
+function getLongOptionNames(option: string, schema: ArgSchema): string[] {
+  return [option, ...getLongAliases(schema), ...(schema.deprecatedNames ?? [])]
+}
+
+function getLongAliases(schema: ArgSchema): string[] {
+  return schema.aliases ? schema.aliases.filter(alias => alias.length > 1) : []
+}
+
+/**
+ * Get the short option names of the argument schema.
+ *
+ * @param schema - An {@link ArgSchema | argument schema}
+ * @returns The `short` name, and its single character aliases
+ */
+function getShortOptionNames(schema: ArgSchema): string[] {
+  const names = schema.short ? [schema.short] : []
+  return schema.aliases ? [...names, ...schema.aliases.filter(alias => alias.length === 1)] : names
+}
+
 function validateRequire(
   token: ArgToken,
   rawArg: string,
   option: string,
   schema: ArgSchema
 ): Error | undefined {
-  if (schema.required && schema.type !== 'boolean' && !token.value) {
+  if (schema.required && !isFlag(schema) && !token.value) {
     return createRequireError(rawArg, option, schema)
   }
 }
@@ -1296,10 +3017,11 @@ function createTypeError(
   rawArg: string,
   option: string,
   schema: ArgSchema,
-  actual: unknown
+  actual: unknown,
+  origin?: ValueOrigin
 ): ArgResolveError {
   return new ArgResolveError(
-    `Optional argument ${createOptionDisplayName(option, schema)} should be '${schema.type}'`,
+    `${createSubjectName(option, schema, origin)} should be '${schema.type}'`,
     option,
     'type',
     schema,
@@ -1309,7 +3031,59 @@ function createTypeError(
         displayName: createOptionDisplayName(option, schema),
         name: rawArg,
         expected: schema.type,
-        ...(actual != null ? { actual } : {})
+        ...(actual != null ? { actual } : {}),
+        ...createOriginValues(origin)
+      }
+    }
+  )
+}
+
+function createRequiredValuesError(
+  rawArg: string,
+  option: string,
+  schema: ArgSchema,
+  min: number,
+  max: number,
+  actual: number
+): ArgResolveError {
+  const expected = `${min === max ? '' : 'at least '}${min} ${min === 1 ? 'value' : 'values'}`
+  return new ArgResolveError(
+    `Optional argument ${createOptionDisplayName(option, schema)} requires ${expected}, but got ${actual}`,
+    option,
+    'required',
+    schema,
+    {
+      code: ArgsValidationErrorKeys.requiredValues,
+      values: {
+        displayName: createOptionDisplayName(option, schema),
+        name: rawArg,
+        min,
+        ...(Number.isFinite(max) ? { max } : {}),
+        actual
+      }
+    }
+  )
+}
+
+function createDuplicateKeyError(
+  rawArg: string,
+  option: string,
+  schema: ArgSchema,
+  key: string,
+  origin?: ValueOrigin
+): ArgResolveError {
+  return new ArgResolveError(
+    `${createSubjectName(option, schema, origin)} has a duplicate key '${key}'`,
+    option,
+    'type',
+    schema,
+    {
+      code: ArgsValidationErrorKeys.duplicateKey,
+      values: {
+        displayName: createOptionDisplayName(option, schema),
+        name: rawArg,
+        key,
+        ...createOriginValues(origin)
       }
     }
   )
@@ -1319,11 +3093,16 @@ function createChoiceError(
   rawArg: string,
   option: string,
   schema: ArgSchema,
-  actual: unknown
+  actual: unknown,
+  origin?: ValueOrigin
 ): ArgResolveError {
   const choices = schema.choices ?? []
+  const suggestions = typeof actual === 'string' ? findSuggestions(actual, choices) : []
   return new ArgResolveError(
-    `Optional argument ${createOptionDisplayName(option, schema)} should be chosen from '${schema.type}' [${formatChoices(choices)}] values`,
+    withSuggestions(
+      `${createSubjectName(option, schema, origin)} should be chosen from '${schema.type}' [${formatChoices(choices)}] values`,
+      suggestions
+    ),
     option,
     'type',
     schema,
@@ -1335,21 +3114,92 @@ function createChoiceError(
         expected: schema.type,
         choices: formatChoices(choices),
         choiceValues: [...choices],
-        ...(actual != null ? { actual } : {})
+        ...(actual != null ? { actual } : {}),
+        ...(suggestions.length > 0 ? { suggestions } : {}),
+        ...createOriginValues(origin)
+      }
+    }
+  )
+}
+
+function createUnknownConfigKeyError(layer: ArgConfigLayer, key: string): ArgResolveError {
+  const value = layer.values[key]
+  const schema: ArgSchema = { type: typeof value === 'boolean' ? 'boolean' : 'string' }
+  return new ArgResolveError(
+    `Unknown configuration key '${key}' in '${layer.name}'`,
+    key,
+    'unknown',
+    schema,
+    {
+      code: ArgsValidationErrorKeys.unknownOption,
+      values: {
+        name: key,
+        layer: layer.name,
+        key
+      }
+    }
+  )
+}
+
+function createAmbiguousOptionError(token: ArgToken, candidates: string[]): ArgResolveError {
+  const rawName = token.rawName!
+  const candidateNames = candidates.map(candidate => `--${candidate}`)
+  const schema: ArgSchema = { type: token.value === undefined ? 'boolean' : 'string' }
+  return new ArgResolveError(
+    `Ambiguous option '${rawName}' could match ${formatList(
+      candidateNames.map(name => `'${name}'`),
+      'or'
+    )}`,
+    token.name!,
+    'unknown',
+    schema,
+    {
+      code: ArgsValidationErrorKeys.ambiguousOption,
+      values: {
+        name: token.name,
+        rawName,
+        index: token.index,
+        candidates: candidateNames
+      }
+    }
+  )
+}
+
+function createUnknownOptionError(token: ArgToken, suggestions: string[]): ArgResolveError {
+  const rawName = token.rawName!
+  // unknown options have no schema, so infer it from the token like Node.js `parseArgs` does in non-strict mode
+  const schema: ArgSchema = { type: token.value === undefined ? 'boolean' : 'string' }
+  return new ArgResolveError(
+    withSuggestions(`Unknown option '${rawName}'`, suggestions),
+    token.name!,
+    'unknown',
+    schema,
+    {
+      code: ArgsValidationErrorKeys.unknownOption,
+      values: {
+        name: token.name,
+        rawName,
+        index: token.index,
+        ...(suggestions.length > 0 ? { suggestions } : {})
       }
     }
   )
 }
 
+function withSuggestions(message: string, suggestions: string[]): string {
+  return suggestions.length > 0 ? `${message}. ${formatSuggestions(suggestions)}` : message
+}
+
 function createCustomParseError(
   error: unknown,
   rawArg: string,
   option: string,
   schema: ArgSchema,
-  value: string
+  value: string,
+  origin?: ValueOrigin
 ): Error {
   if (isArgsValidationError(error)) {
-    augmentValidationError(error, rawArg, option, schema, value)
+    augmentValidationError(error, rawArg, option, schema, value, origin)
     return error
   }
 
@@ -1359,7 +3209,8 @@ function createCustomParseError(
     values: {
       displayName: createArgumentDisplayName(option, schema),
       name: rawArg,
-      reason
+      reason,
+      ...createOriginValues(origin)
     },
     cause: error
   })
@@ -1370,11 +3221,13 @@ function augmentValidationError(
   rawArg: string,
   option: string,
   schema: ArgSchema,
-  value: string
+  value: string,
+  origin?: ValueOrigin
 ): void {
   const values = error.values
   values.name ??= rawArg
   values.displayName ??= createArgumentDisplayName(option, schema)
+  Object.assign(values, createOriginValues(origin))
 
   if (
     (error.code === ArgsValidationErrorKeys.invalidType ||
@@ -1394,46 +3247,472 @@ function createArgumentDisplayName(option: string, schema: ArgSchema): string {
 }
 
 function createOptionDisplayName(option: string, schema: ArgSchema): string {
-  return `'--${option}'${schema.short ? ` or '-${schema.short}'` : ''}`
+  const names = [
+    `'--${option}'`,
+    ...getLongAliases(schema).map(name => `'--${name}'`),
+    ...getShortOptionNames(schema).map(name => `'-${name}'`)
+  ]
+  return formatList(names, 'or')
+}
+
+function createSubjectName(option: string, schema: ArgSchema, origin?: ValueOrigin): string {
+  switch (origin?.source) {
+    case 'env': {
+      return `Environment variable '${origin.name}'`
+    }
+    case 'config': {
+      return `Configuration key '${origin.key}' in '${origin.name}'`
+    }
+    default: {
+      return `Optional argument ${createOptionDisplayName(option, schema)}`
+    }
+  }
+}
+
+function createOriginValues(origin?: ValueOrigin): Record<string, unknown> {
+  switch (origin?.source) {
+    case 'env': {
+      return { env: origin.name }
+    }
+    case 'config': {
+      return { layer: origin.name, key: origin.key }
+    }
+    default: {
+      return {}
+    }
+  }
 }
 
 function checkConflicts<A extends Args>(
   args: A,
-  explicit: ArgExplicitlyProvided<A>,
+  sources: Record<string, ArgValueSource>,
   toKebab: boolean,
   actualInputNames: Map<string, string>
 ): ArgResolveError[] {
+  return collectConflicts(
+    args,
+    rawArg => isProvided(sources, rawArg),
+    (rawArg, conflictingArg) => {
+      const schema = args[rawArg]
+      const conflictingSchema = args[conflictingArg]
+
+      // use the actual input name that was used, fallback to long form
+      const arg = toKebab || schema.toKebab ? kebabnize(rawArg) : rawArg
+      const conflictingArgKebab =
+        toKebab || conflictingSchema.toKebab ? kebabnize(conflictingArg) : conflictingArg
+
+      const origin = getValueOrigin(sources[rawArg], rawArg)
+      const conflictingOrigin = getValueOrigin(sources[conflictingArg], conflictingArg)
+
+      // both values come from the same configuration layer
+      if (
+        origin?.source === 'config' &&
+        conflictingOrigin?.source === 'config' &&
+        origin.name === conflictingOrigin.name
+      ) {
+        return createConflictError(
+          `Configuration key '${rawArg}' conflicts with '${conflictingArg}' in '${origin.name}'`,
+          rawArg,
+          arg,
+          schema,
+          conflictingArg,
+          conflictingArgKebab,
+          conflictingSchema,
+          { layer: origin.name }
+        )
+      }
+
+      const optionActualName = actualInputNames.get(rawArg) || `--${arg}`
+      const conflictingActualName =
+        actualInputNames.get(conflictingArg) || `--${conflictingArgKebab}`
+
+      const subject = origin
+        ? createSubjectName(arg, schema, origin)
+        : `Optional argument '${optionActualName}'`
+      const conflictingName = conflictingOrigin
+        ? createOriginName(conflictingOrigin)
+        : `'${conflictingActualName}'`
+
+      return createConflictError(
+        `${subject} conflicts with ${conflictingName}`,
+        rawArg,
+        arg,
+        schema,
+        conflictingArg,
+        conflictingArgKebab,
+        conflictingSchema,
+        {
+          ...createSourceValues(origin),
+          ...createSourceValues(conflictingOrigin, 'conflicting')
+        }
+      )
+    }
+  )
+}
+
+/**
+ * Get the origin of the value, which is provided by other than the command line.
+ *
+ * @param source - The value source
+ * @param rawArg - The property key of the argument
+ * @returns The origin of the value, or `undefined` if it comes from the command line
+ */
+function getValueOrigin(
+  source: ArgValueSource | undefined,
+  rawArg: string
+): ValueOrigin | undefined {
+  switch (source?.kind) {
+    case 'env': {
+      return { source: 'env', name: source.env! }
+    }
+    case 'config': {
+      return { source: 'config', name: source.layer!, key: rawArg }
+    }
+    default: {
+      return undefined
+    }
+  }
+}
+
+function createOriginName(origin: ValueOrigin): string {
+  return origin.source === 'env'
+    ? `environment variable '${origin.name}'`
+    : `configuration key '${origin.key}' in '${origin.name}'`
+}
+
+/**
+ * Create the values, which tell where the value comes from, for the constraint errors.
+ *
+ * @param origin - The origin of the value
+ * @param prefix - The prefix of the value keys, e.g. `conflicting` => `conflictingLayer`
+ * @returns The `env` or `layer` values
+ */
+function createSourceValues(
+  origin: ValueOrigin | undefined,
+  prefix?: string
+): Record<string, string> {
+  if (origin == undefined) {
+    return {}
+  }
+  const key = origin.source === 'env' ? 'env' : 'layer'
+  return { [prefix ? `${prefix}${key[0].toUpperCase()}${key.slice(1)}` : key]: origin.name }
+}
+
+/**
+ * Collect all conflicting pairs of provided arguments.
+ * A pair is reported once, even if both sides declare the conflict.
+ *
+ * @param args - An {@link Args | arguments schema}
+ * @param isProvided - A predicate whether the argument is provided
+ * @param createError - A factory to create the error for a conflicting pair
+ * @returns The conflict errors
+ */
+function collectConflicts<A extends Args>(
+  args: A,
+  isProvided: (rawArg: string) => boolean,
+  createError: (rawArg: string, conflictingArg: string) => ArgResolveError
+): ArgResolveError[] {
+  const errors: ArgResolveError[] = []
+  const reported = new Set<string>()
+
   for (const rawArg in args) {
     const schema = args[rawArg]
 
-    if (!explicit[rawArg]) {
+    if (!schema.conflicts || !isProvided(rawArg)) {
       continue
     }
-    if (!schema.conflicts) {
+
+    const conflicts = Array.isArray(schema.conflicts) ? schema.conflicts : [schema.conflicts]
+
+    for (const conflictingArg of conflicts) {
+      if (args[conflictingArg] == undefined || !isProvided(conflictingArg)) {
+        continue
+      }
+
+      const pair = JSON.stringify([rawArg, conflictingArg].sort())
+      if (reported.has(pair)) {
+        continue
+      }
+      reported.add(pair)
+
+      errors.push(createError(rawArg, conflictingArg))
+    }
+  }
+
+  return errors
+}
+
+function createConflictError(
+  message: string,
+  rawArg: string,
+  option: string,
+  schema: ArgSchema,
+  conflictingArg: string,
+  conflictingOption: string,
+  conflictingSchema: ArgSchema,
+  extraValues: Record<string, unknown> = {}
+): ArgResolveError {
+  return new ArgResolveError(message, rawArg, 'conflict', schema, {
+    code: ArgsValidationErrorKeys.conflict,
+    values: {
+      displayName: createOptionDisplayName(option, schema),
+      name: rawArg,
+      conflictingDisplayName: createOptionDisplayName(conflictingOption, conflictingSchema),
+      conflicting: conflictingArg,
+      ...extraValues
+    }
+  })
+}
+
+function checkDependencies<A extends Args>(
+  args: A,
+  sources: Record<string, ArgValueSource>,
+  toKebab: boolean,
+  actualInputNames: Map<string, string>
+): ArgResolveError[] {
+  const errors: ArgResolveError[] = []
+
+  for (const rawArg in args) {
+    const schema = args[rawArg]
+
+    if (!schema.requires || !isProvided(sources, rawArg)) {
       continue
     }
 
-    const conflicts = Array.isArray(schema.conflicts) ? schema.conflicts : [schema.conflicts]
+    const arg = toKebab || schema.toKebab ? kebabnize(rawArg) : rawArg
+    const optionActualName = actualInputNames.get(rawArg) || `--${arg}`
+    const origin = getValueOrigin(sources[rawArg], rawArg)
+    const requires = Array.isArray(schema.requires) ? schema.requires : [schema.requires]
 
-    for (let i = 0; i < conflicts.length; i++) {
-      const conflictingArg = conflicts[i]
-      if (!explicit[conflictingArg]) {
+    for (const dependency of requires) {
+      const dependencySchema = args[dependency]
+      if (dependencySchema == undefined || isProvided(sources, dependency)) {
         continue
       }
 
-      // use the actual input name that was used, fallback to long form
-      const arg = toKebab || schema.toKebab ? kebabnize(rawArg) : rawArg
-      const conflictingArgKebab =
-        toKebab || args[conflictingArg]?.toKebab ? kebabnize(conflictingArg) : conflictingArg
+      const dependencyDisplayName =
+        dependencySchema.type === 'positional'
+          ? `'${dependency}'`
+          : createOptionDisplayName(
+              toKebab || dependencySchema.toKebab ? kebabnize(dependency) : dependency,
+              dependencySchema
+            )
+      errors.push(
+        new ArgResolveError(
+          `${origin ? createSubjectName(arg, schema, origin) : `Optional argument '${optionActualName}'`} requires ${dependencyDisplayName}`,
+          rawArg,
+          'dependency',
+          schema,
+          {
+            code: ArgsValidationErrorKeys.missingDependency,
+            values: {
+              displayName: createOptionDisplayName(arg, schema),
+              name: rawArg,
+              dependencyDisplayName,
+              dependency,
+              ...createSourceValues(origin)
+            }
+          }
+        )
+      )
+    }
+  }
 
-      const optionActualName = actualInputNames.get(rawArg) || `--${arg}`
-      const conflictingActualName =
-        actualInputNames.get(conflictingArg) || `--${conflictingArgKebab}`
+  return errors
+}
+
+function checkGroups<A extends Args>(
+  args: A,
+  groups: ArgGroup[],
+  sources: Record<string, ArgValueSource>,
+  toKebab: boolean
+): ArgResolveError[] {
+  const errors: ArgResolveError[] = []
+
+  const getDisplayName = (rawArg: string) => {
+    const schema = args[rawArg]
+    if (schema.type === 'positional') {
+      return `'${rawArg}'`
+    }
+    return `'--${toKebab || schema.toKebab ? kebabnize(rawArg) : rawArg}'`
+  }
+
+  for (const group of groups) {
+    const keys = group.keys.filter(key => args[key] != undefined)
+    if (keys.length === 0) {
+      continue
+    }
+
+    const provided = keys.filter(key => isProvided(sources, key))
+    const displayNames = keys.map(key => getDisplayName(key))
+    const values = {
+      group: group.type,
+      names: keys,
+      displayNames,
+      provided
+    }
+
+    if (provided.length > 1 && group.type !== 'at-least-one') {
+      const providedDisplayNames = provided.map(key => getDisplayName(key))
+      // describe where the values come from, if they are not from the command line
+      const origins = provided.map(key => getValueOrigin(sources[key], key))
+      const providedNames = origins.map((origin, index) =>
+        origin ? createOriginName(origin) : providedDisplayNames[index]
+      )
+      const layers = collectOriginNames(provided, origins, 'config')
+      const envs = collectOriginNames(provided, origins, 'env')
+      errors.push(
+        new ArgResolveError(
+          `Only one of ${formatList(displayNames, 'or')} can be provided, but got ${formatList(providedNames, 'and')}`,
+          provided[0],
+          'conflict',
+          args[provided[0]],
+          {
+            code: ArgsValidationErrorKeys.groupConflict,
+            values: {
+              ...values,
+              providedDisplayNames,
+              ...(layers ? { layers } : {}),
+              ...(envs ? { envs } : {})
+            }
+          }
+        )
+      )
+    } else if (provided.length === 0 && group.type !== 'at-most-one') {
+      errors.push(
+        new ArgResolveError(
+          `${group.type === 'exactly-one' ? 'Exactly' : 'At least'} one of ${formatList(displayNames, 'or')} is required`,
+          keys[0],
+          'required',
+          args[keys[0]],
+          {
+            code: ArgsValidationErrorKeys.groupRequired,
+            values
+          }
+        )
+      )
+    }
+  }
 
-      const message = `Optional argument '${optionActualName}' conflicts with '${conflictingActualName}'`
-      return [new ArgResolveError(message, rawArg, 'conflict', schema)]
+  return errors
+}
+
+/**
+ * Collect the names of the origins (layer names or environment variable names) per argument.
+ *
+ * @param keys - The property keys of the arguments
+ * @param origins - The origins of the values, which correspond to the `keys`
+ * @param source - The kind of the origin to collect
+ * @returns The names keyed by the property key, or `undefined` if there are no such origins
+ */
+function collectOriginNames(
+  keys: string[],
+  origins: (ValueOrigin | undefined)[],
+  source: ValueOrigin['source']
+): Record<string, string> | undefined {
+  const names: Record<string, string> = {}
+  for (const [index, origin] of origins.entries()) {
+    if (origin?.source === source) {
+      names[keys[index]] = origin.name
     }
   }
+  return Object.keys(names).length > 0 ? names : undefined
+}
+
+/**
+ * Check whether the argument is provided by users.
+ * Default values and implied values are not provided by users, so they neither trigger nor satisfy constraints.
+ *
+ * @param sources - The value sources
+ * @param rawArg - The property key of the argument
+ * @returns `true` if the value comes from other than default and default factory
+ */
+function isProvided(sources: Record<string, ArgValueSource>, rawArg: string): boolean {
+  return (
+    sources[rawArg] != undefined &&
+    sources[rawArg].kind !== 'default' &&
+    sources[rawArg].kind !== 'implied'
+  )
+}
+
+function checkDeprecations<A extends Args>(
+  args: A,
+  sources: Record<string, ArgValueSource>,
+  toKebab: boolean,
+  actualInputNames: Map<string, string>
+): ArgsValidationError[] {
+  const warnings: ArgsValidationError[] = []
 
-  return []
+  for (const rawArg in args) {
+    const schema = args[rawArg]
+
+    if (schema.deprecated == undefined || !isProvided(sources, rawArg)) {
+      continue
+    }
+
+    const arg = toKebab || schema.toKebab ? kebabnize(rawArg) : rawArg
+    const subject =
+      schema.type === 'positional'
+        ? `Positional argument '${arg}'`
+        : `Optional argument '${actualInputNames.get(rawArg) || `--${arg}`}'`
+    const values: Record<string, unknown> = {
+      displayName: createArgumentDisplayName(arg, schema),
+      name: rawArg
+    }
+
+    let message = `${subject} is deprecated`
+    if (typeof schema.deprecated === 'string') {
+      message += `: ${schema.deprecated}`
+      values.message = schema.deprecated
+    } else {
+      const { since, replacement } = schema.deprecated
+      if (since) {
+        message += ` since ${since}`
+        values.since = since
+      }
+      if (replacement) {
+        const replacementSchema = args[replacement]
+        const replacementDisplayName =
+          replacementSchema == undefined
+            ? `'${replacement}'`
+            : createArgumentDisplayName(
+                toKebab || replacementSchema.toKebab ? kebabnize(replacement) : replacement,
+                replacementSchema
+              )
+        message += `. Use ${replacementDisplayName} instead`
+        values.replacement = replacement
+        values.replacementDisplayName = replacementDisplayName
+      }
+    }
+
+    warnings.push(
+      new ArgsValidationError(message, {
+        code: ArgsValidationErrorKeys.deprecatedOption,
+        values
+      })
+    )
+  }
+
+  return warnings
+}
+
+function createDeprecatedNameWarning(
+  rawArg: string,
+  option: string,
+  schema: ArgSchema,
+  deprecatedName: string,
+  negated: boolean
+): ArgsValidationError {
+  const prefix = negated ? '--no-' : '--'
+  return new ArgsValidationError(
+    `Optional argument '${prefix}${deprecatedName}' is deprecated. Use '${prefix}${option}' instead`,
+    {
+      code: ArgsValidationErrorKeys.deprecatedName,
+      values: {
+        displayName: createOptionDisplayName(option, schema),
+        name: rawArg,
+        deprecatedName
+      }
+    }
+  )
 }
@@ -1,5 +1,11 @@
 import { describe, expect, test } from 'vitest'
-import { formatChoices, kebabnize } from './utils.ts'
+import {
+  findSuggestions,
+  formatChoices,
+  formatList,
+  formatSuggestions,
+  kebabnize
+} from './utils.ts'
 
 describe('kebabnize', () => {
   test('simple camelCase to kebab-case', () => {
@@ -16,3 +22,44 @@ describe('formatChoices', () => {
     expect(formatChoices(['debug', 'info', 'warn'])).toBe('"debug", "info", "warn"')
   })
 })
+
+describe('findSuggestions', () => {
+  test('finds candidates within edit distance', () => {
+    expect(findSuggestions('verbsoe', ['version', 'verbose', 'help'])).toEqual(['verbose'])
+    expect(findSuggestions('colr', ['color', 'no-color'])).toEqual(['color'])
+  })
+
+  test('orders candidates by edit distance', () => {
+    expect(findSuggestions('infoo', ['warn', 'info', 'infos'])).toEqual(['info', 'infos'])
+  })
+
+  test('compares case-insensitively', () => {
+    expect(findSuggestions('V', ['v', 'h'])).toEqual(['v'])
+  })
+
+  test('returns empty when no candidate is close enough', () => {
+    expect(findSuggestions('x', ['v', 'h'])).toEqual([])
+    expect(findSuggestions('trace', ['debug', 'info'])).toEqual([])
+  })
+})
+
+describe('formatSuggestions', () => {
+  test('single suggestion', () => {
+    expect(formatSuggestions(['--verbose'])).toBe("Did you mean '--verbose'?")
+  })
+
+  test('multiple suggestions', () => {
+    expect(formatSuggestions(['info', 'infos', 'into'])).toBe(
+      "Did you mean 'info', 'infos' or 'into'?"
+    )
+  })
+})
+
+describe('formatList', () => {
+  test('basic', () => {
+    expect(formatList([], 'or')).toBe('')
+    expect(formatList(['a'], 'or')).toBe('a')
+    expect(formatList(['a', 'b'], 'and')).toBe('a and b')
+    expect(formatList(['a', 'b', 'c'], 'or')).toBe('a, b or c')
+  })
+})
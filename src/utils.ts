@@ -30,3 +30,76 @@ export function kebabnize(str: string): string {
 export function formatChoices(choices: readonly string[]): string {
   return choices.map(value => JSON.stringify(value)).join(', ')
 }
+
+/**
+ * Find candidates similar to an input for "Did you mean" suggestions.
+ *
+ * Candidates are compared case-insensitively by edit distance (adjacent transpositions count as one edit),
+ * and are returned from the closest to the farthest.
+ *
+ * @param input - An input that did not match any candidate
+ * @param candidates - Candidates to compare with the input
+ * @returns Similar candidates, empty when no candidate is close enough.
+ */
+export function findSuggestions(input: string, candidates: readonly string[]): string[] {
+  const source = input.toLowerCase()
+  const threshold = Math.max(1, Math.floor(source.length / 3))
+  const suggestions: [candidate: string, distance: number][] = []
+  for (const candidate of candidates) {
+    const target = candidate.toLowerCase()
+    const distance = getEditDistance(source, target)
+    // single character inputs are only close to the same character in different case
+    if (distance <= threshold && distance < Math.max(source.length, target.length)) {
+      suggestions.push([candidate, distance])
+    }
+  }
+  return suggestions.sort((a, b) => a[1] - b[1]).map(([candidate]) => candidate)
+}
+
+/**
+ * Format suggestions for validation error fallback messages.
+ *
+ * @param suggestions - Suggestions to format
+ * @returns A hint such as `Did you mean '--verbose'?`.
+ */
+export function formatSuggestions(suggestions: readonly string[]): string {
+  return `Did you mean ${formatList(
+    suggestions.map(suggestion => `'${suggestion}'`),
+    'or'
+  )}?`
+}
+
+/**
+ * Format items as a list for validation error fallback messages.
+ *
+ * @param items - Items to format
+ * @param conjunction - A conjunction to join the last item
+ * @returns Items joined such as `a, b or c`.
+ */
+export function formatList(items: readonly string[], conjunction: 'and' | 'or'): string {
+  if (items.length <= 1) {
+    return items.join('')
+  }
+  return `${items.slice(0, -1).join(', ')} ${conjunction} ${items.at(-1)}`
+}
+
+function getEditDistance(a: string, b: string): number {
+  // optimal string alignment distance
+  const d: number[][] = []
+  for (let i = 0; i <= a.length; i++) {
+    d[i] = [i]
+  }
+  for (let j = 1; j <= b.length; j++) {
+    d[0][j] = j
+  }
+  for (let i = 1; i <= a.length; i++) {
+    for (let j = 1; j <= b.length; j++) {
+      const cost = a[i - 1] === b[j - 1] ? 0 : 1
+      d[i][j] = Math.min(d[i - 1][j] + 1, d[i][j - 1] + 1, d[i - 1][j - 1] + cost)
+      if (i > 1 && j > 1 && a[i - 1] === b[j - 2] && a[i - 2] === b[j - 1]) {
+        d[i][j] = Math.min(d[i][j], d[i - 2][j - 2] + 1)
+      }
+    }
+  }
+  return d[a.length][b.length]
+}